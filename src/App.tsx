@@ -6,8 +6,23 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import ProductDetail from "./pages/ProductDetail";
+import Suppliers from "./pages/Suppliers";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
 import Receipts from "./pages/Receipts";
+import ReceiptDetail from "./pages/ReceiptDetail";
+import SalesOrders from "./pages/SalesOrders";
+import SalesOrderDetail from "./pages/SalesOrderDetail";
 import Deliveries from "./pages/Deliveries";
+import DeliveryDetail from "./pages/DeliveryDetail";
+import Backorders from "./pages/Backorders";
+import Transfers from "./pages/Transfers";
+import TransferDetail from "./pages/TransferDetail";
+import Adjustments from "./pages/Adjustments";
+import Movements from "./pages/Movements";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -24,8 +39,23 @@ const App = () => (
           <Route path="/auth" element={<Auth />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/products" element={<Products />} />
+          <Route path="/products/:id" element={<ProductDetail />} />
+          <Route path="/suppliers" element={<Suppliers />} />
+          <Route path="/customers" element={<Customers />} />
+          <Route path="/customers/:id" element={<CustomerDetail />} />
+          <Route path="/purchase-orders" element={<PurchaseOrders />} />
+          <Route path="/purchase-orders/:id" element={<PurchaseOrderDetail />} />
           <Route path="/receipts" element={<Receipts />} />
+          <Route path="/receipts/:id" element={<ReceiptDetail />} />
+          <Route path="/sales-orders" element={<SalesOrders />} />
+          <Route path="/sales-orders/:id" element={<SalesOrderDetail />} />
           <Route path="/deliveries" element={<Deliveries />} />
+          <Route path="/deliveries/:id" element={<DeliveryDetail />} />
+          <Route path="/backorders" element={<Backorders />} />
+          <Route path="/transfers" element={<Transfers />} />
+          <Route path="/transfers/:id" element={<TransferDetail />} />
+          <Route path="/adjustments" element={<Adjustments />} />
+          <Route path="/movements" element={<Movements />} />
           <Route path="/settings" element={<Settings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface Customer {
+  id: string;
+  name: string;
+}
+
+interface CustomerSelectProps {
+  id?: string;
+  value: string;
+  onChange: (customerId: string) => void;
+}
+
+// Mirrors public.normalize_party_name, which keeps customer names unique
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim() || name.trim().toLowerCase();
+
+// Searchable customer picker that can create a customer from the search text
+const CustomerSelect = ({ id, value, onChange }: CustomerSelectProps) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from("customers")
+      .select("id, name")
+      .eq("is_active", true)
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching customers:", error);
+          return;
+        }
+        setCustomers(data || []);
+      });
+  }, []);
+
+  const query = normalizeName(search);
+  const matches = customers.filter((customer) => normalizeName(customer.name).includes(query));
+  const exactMatch = customers.some((customer) => normalizeName(customer.name) === query);
+  const selected = customers.find((customer) => customer.id === value);
+
+  const handleSelect = (customerId: string) => {
+    onChange(customerId);
+    setSearch("");
+    setOpen(false);
+  };
+
+  const handleCreate = async () => {
+    const name = search.trim();
+    setCreating(true);
+
+    const { data, error } = await supabase
+      .from("customers")
+      .insert([{ name }])
+      .select("id, name")
+      .single();
+
+    setCreating(false);
+
+    if (error) {
+      toast.error(
+        error.code === "23505" ? `A customer named "${name}" already exists` : error.message
+      );
+      return;
+    }
+
+    setCustomers((current) =>
+      [...current, data].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    toast.success(`Customer ${data.name} created`);
+    handleSelect(data.id);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn(!selected && "text-muted-foreground")}>
+            {selected?.name ?? "Select customer"}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search or add customer..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            {!query && <CommandEmpty>No customers yet</CommandEmpty>}
+            <CommandGroup>
+              {matches.map((customer) => (
+                <CommandItem
+                  key={customer.id}
+                  value={customer.id}
+                  onSelect={() => handleSelect(customer.id)}
+                >
+                  <Check
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      customer.id === value ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                  {customer.name}
+                </CommandItem>
+              ))}
+              {query && !exactMatch && (
+                <CommandItem value="__create" onSelect={handleCreate} disabled={creating}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{search.trim()}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CustomerSelect;
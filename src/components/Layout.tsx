@@ -4,9 +4,17 @@ import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
 import {
   Package,
+  Building2,
+  Users,
+  ShoppingCart,
+  ClipboardList,
   LayoutDashboard,
   FileText,
   TruckIcon,
+  Hourglass,
+  ArrowLeftRight,
+  SlidersHorizontal,
+  History,
   Settings,
   LogOut,
   Menu,
@@ -61,8 +69,16 @@ const Layout = ({ children }: LayoutProps) => {
   const menuItems = [
     { icon: LayoutDashboard, label: "Dashboard", path: "/dashboard" },
     { icon: Package, label: "Products", path: "/products" },
+    { icon: Building2, label: "Suppliers", path: "/suppliers" },
+    { icon: Users, label: "Customers", path: "/customers" },
+    { icon: ShoppingCart, label: "Purchase Orders", path: "/purchase-orders" },
     { icon: FileText, label: "Receipts", path: "/receipts" },
+    { icon: ClipboardList, label: "Sales Orders", path: "/sales-orders" },
     { icon: TruckIcon, label: "Deliveries", path: "/deliveries" },
+    { icon: Hourglass, label: "Backorders", path: "/backorders" },
+    { icon: ArrowLeftRight, label: "Transfers", path: "/transfers" },
+    { icon: SlidersHorizontal, label: "Adjustments", path: "/adjustments" },
+    { icon: History, label: "Movements", path: "/movements" },
     { icon: Settings, label: "Settings", path: "/settings" },
   ];
 
@@ -107,7 +123,9 @@ const Layout = ({ children }: LayoutProps) => {
           <nav className="flex-1 p-4 space-y-1">
             {menuItems.map((item) => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.path;
+              const isActive =
+                location.pathname === item.path ||
+                location.pathname.startsWith(`${item.path}/`);
               
               return (
                 <button
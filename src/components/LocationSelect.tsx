@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildTree, flattenTree, getPath } from "@/lib/tree";
+
+interface Location {
+  id: string;
+  code: string;
+  name: string;
+  parent_id: string | null;
+  location_type: string;
+}
+
+interface LocationSelectProps {
+  id?: string;
+  warehouseId: string | undefined;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  placeholder?: string;
+}
+
+const NONE = "none";
+
+// Picks an active location inside a warehouse, labelled with its full path
+const LocationSelect = ({
+  id,
+  warehouseId,
+  value,
+  onChange,
+  placeholder = "No specific location",
+}: LocationSelectProps) => {
+  const [locations, setLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    if (!warehouseId) {
+      setLocations([]);
+      return;
+    }
+
+    supabase
+      .from("locations")
+      .select("id, code, name, parent_id, location_type")
+      .eq("warehouse_id", warehouseId)
+      .eq("is_active", true)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching locations:", error);
+          return;
+        }
+        setLocations(data || []);
+      });
+  }, [warehouseId]);
+
+  const options = flattenTree(buildTree(locations));
+
+  return (
+    <Select
+      value={value ?? NONE}
+      onValueChange={(selected) => onChange(selected === NONE ? null : selected)}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{placeholder}</SelectItem>
+        {options.map((node) => (
+          <SelectItem key={node.item.id} value={node.item.id}>
+            {node.item.code} · {getPath(locations, node.item.id)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LocationSelect;
@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const statusColors: Record<string, string> = {
+  draft: "bg-muted text-muted-foreground",
+  waiting: "bg-warning/20 text-warning",
+  ready: "bg-accent/20 text-accent",
+  in_transit: "bg-primary/20 text-primary",
+  confirmed: "bg-accent/20 text-accent",
+  partially_received: "bg-warning/20 text-warning",
+  received: "bg-success/20 text-success",
+  partially_delivered: "bg-warning/20 text-warning",
+  delivered: "bg-success/20 text-success",
+  done: "bg-success/20 text-success",
+  canceled: "bg-destructive/20 text-destructive",
+};
+
+interface StatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const StatusBadge = ({ status, className }: StatusBadgeProps) => {
+  return (
+    <Badge className={cn(statusColors[status] || statusColors.draft, className)}>
+      {status.replace("_", " ")}
+    </Badge>
+  );
+};
+
+export default StatusBadge;
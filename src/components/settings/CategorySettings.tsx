@@ -0,0 +1,409 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Pencil, Trash2, FolderTree, GripVertical } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildTree, flattenTree, getDescendantIds, type TreeNode } from "@/lib/tree";
+import { cn } from "@/lib/utils";
+
+interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+}
+
+const NONE = "none";
+
+const emptyForm = {
+  name: "",
+  description: "",
+  parent_id: NONE,
+};
+
+const CategorySettings = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [productCounts, setProductCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = useState(NONE);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+    fetchProductCounts();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name, description, parent_id")
+        .order("name");
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      toast.error("Failed to load categories");
+    }
+  };
+
+  const fetchProductCounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("category_id")
+        .not("category_id", "is", null);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach((product) => {
+        counts[product.category_id] = (counts[product.category_id] || 0) + 1;
+      });
+      setProductCounts(counts);
+    } catch (error) {
+      console.error("Error fetching product counts:", error);
+    }
+  };
+
+  const tree = buildTree(categories);
+  const flatTree = flattenTree(tree);
+
+  // Options for a parent or reassignment select, leaving out a category and its subtree
+  const optionsExcluding = (categoryId: string | null) => {
+    const excluded = categoryId ? getDescendantIds(categories, categoryId) : [];
+    return flatTree.filter((node) => !excluded.includes(node.item.id));
+  };
+
+  const openCreateDialog = (parentId: string | null = null) => {
+    setEditingCategory(null);
+    setFormData({ ...emptyForm, parent_id: parentId ?? NONE });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      description: category.description || "",
+      parent_id: category.parent_id ?? NONE,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const values = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        parent_id: formData.parent_id === NONE ? null : formData.parent_id,
+      };
+
+      const { error } = editingCategory
+        ? await supabase.from("categories").update(values).eq("id", editingCategory.id)
+        : await supabase.from("categories").insert([values]);
+
+      if (error) throw error;
+
+      toast.success(editingCategory ? "Category updated" : "Category created");
+      setDialogOpen(false);
+      fetchCategories();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save category");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveCategory = async (categoryId: string, parentId: string | null) => {
+    const category = categories.find((c) => c.id === categoryId);
+    if (!category || category.parent_id === parentId) return;
+
+    if (parentId && getDescendantIds(categories, categoryId).includes(parentId)) {
+      toast.error("A category cannot be placed inside one of its subcategories");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .update({ parent_id: parentId })
+        .eq("id", categoryId);
+
+      if (error) throw error;
+
+      toast.success(`${category.name} moved`);
+      fetchCategories();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to move category");
+    }
+  };
+
+  const openDeleteDialog = (category: Category) => {
+    setDeletingCategory(category);
+    setReassignTo(category.parent_id ?? NONE);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCategory) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("delete_category", {
+        _category_id: deletingCategory.id,
+        _reassign_to: reassignTo === NONE ? undefined : reassignTo,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${deletingCategory.name} deleted`);
+      setDeletingCategory(null);
+      fetchCategories();
+      fetchProductCounts();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete category");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, parentId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const categoryId = e.dataTransfer.getData("text/plain");
+    setDraggingId(null);
+    setDropTargetId(null);
+    if (categoryId && categoryId !== parentId) {
+      moveCategory(categoryId, parentId);
+    }
+  };
+
+  const renderNode = (node: TreeNode<Category>) => {
+    const { item: category } = node;
+
+    return (
+      <div key={category.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData("text/plain", category.id);
+            e.dataTransfer.effectAllowed = "move";
+            setDraggingId(category.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTargetId(category.id);
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, category.id)}
+          className={cn(
+            "flex items-center justify-between rounded-lg px-2 py-2 hover:bg-muted",
+            draggingId === category.id && "opacity-50",
+            dropTargetId === category.id && draggingId !== category.id && "bg-primary/10 ring-1 ring-primary"
+          )}
+          style={{ paddingLeft: `${node.depth * 1.5 + 0.5}rem` }}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+            <span className="font-medium truncate">{category.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {productCounts[category.id] || 0} products
+            </span>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Add subcategory"
+              onClick={() => openCreateDialog(category.id)}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => openEditDialog(category)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => openDeleteDialog(category)}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+        {node.children.map(renderNode)}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Categories</CardTitle>
+        <Button size="sm" onClick={() => openCreateDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Category
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {categories.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <FolderTree className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No categories yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div>{tree.map(renderNode)}</div>
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(NONE);
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={(e) => handleDrop(e, null)}
+              className={cn(
+                "rounded-lg border border-dashed p-3 text-center text-sm text-muted-foreground",
+                !draggingId && "hidden",
+                dropTargetId === NONE && "bg-primary/10 border-primary"
+              )}
+            >
+              Drop here to move to the top level
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Drag a category onto another to make it a subcategory.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Edit Category" : "Create New Category"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name *</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-parent">Parent Category</Label>
+              <Select
+                value={formData.parent_id}
+                onValueChange={(value) => setFormData({ ...formData, parent_id: value })}
+              >
+                <SelectTrigger id="category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None (top level)</SelectItem>
+                  {optionsExcluding(editingCategory?.id ?? null).map((node) => (
+                    <SelectItem key={node.item.id} value={node.item.id}>
+                      {"— ".repeat(node.depth)}
+                      {node.item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description</Label>
+              <Textarea
+                id="category-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {editingCategory ? "Save Changes" : "Create Category"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!deletingCategory}
+        onOpenChange={(open) => !open && setDeletingCategory(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {deletingCategory?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Its products and subcategories will be moved to the category you choose.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="category-reassign">Move contents to</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger id="category-reassign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No category (top level)</SelectItem>
+                  {optionsExcluding(deletingCategory?.id ?? null).map((node) => (
+                    <SelectItem key={node.item.id} value={node.item.id}>
+                      {"— ".repeat(node.depth)}
+                      {node.item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDeletingCategory(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={loading}>
+                Delete Category
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CategorySettings;
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Pencil } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type DocumentType = (typeof Constants.public.Enums.document_type)[number];
+
+interface Numbering {
+  document_type: DocumentType;
+  prefix: string;
+  padding: number;
+}
+
+const WAREHOUSE_TOKEN = "{warehouse}";
+
+const documentLabels: Record<DocumentType, string> = {
+  receipt: "Receipts",
+  delivery: "Deliveries",
+  transfer: "Transfers",
+  adjustment: "Adjustments",
+  purchase_order: "Purchase Orders",
+  sales_order: "Sales Orders",
+};
+
+// Mirrors next_document_reference so the preview matches what the database assigns
+const formatReference = (prefix: string, padding: number, warehouseCode: string, number: number) =>
+  prefix.split(WAREHOUSE_TOKEN).join(warehouseCode) + String(number).padStart(padding, "0");
+
+const DocumentNumberingSettings = () => {
+  const [numbering, setNumbering] = useState<Numbering[]>([]);
+  const [sampleCode, setSampleCode] = useState("WH");
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<Numbering | null>(null);
+  const [formData, setFormData] = useState({ prefix: "", padding: "5" });
+
+  useEffect(() => {
+    fetchNumbering();
+    fetchSampleCode();
+  }, []);
+
+  const fetchNumbering = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("document_numbering")
+        .select("document_type, prefix, padding");
+
+      if (error) throw error;
+      setNumbering(
+        (data || []).sort(
+          (a, b) =>
+            Constants.public.Enums.document_type.indexOf(a.document_type) -
+            Constants.public.Enums.document_type.indexOf(b.document_type)
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching document numbering:", error);
+      toast.error("Failed to load document numbering");
+    }
+  };
+
+  const fetchSampleCode = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("code")
+        .eq("is_active", true)
+        .order("name")
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setSampleCode(data.code);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  const openEditDialog = (row: Numbering) => {
+    setEditing(row);
+    setFormData({ prefix: row.prefix, padding: String(row.padding) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const prefix = formData.prefix.trim();
+    const padding = parseInt(formData.padding, 10);
+
+    if (!prefix.includes(WAREHOUSE_TOKEN)) {
+      toast.error(`The prefix must include ${WAREHOUSE_TOKEN}`);
+      return;
+    }
+    if (!(padding >= 1 && padding <= 10)) {
+      toast.error("Digits must be between 1 and 10");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from("document_numbering")
+        .update({ prefix, padding })
+        .eq("document_type", editing.document_type);
+
+      if (error) throw error;
+
+      toast.success(`${documentLabels[editing.document_type]} numbering updated`);
+      setEditing(null);
+      fetchNumbering();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save document numbering");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const previewPadding = parseInt(formData.padding, 10) || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Document Numbering</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Document</TableHead>
+              <TableHead>Prefix</TableHead>
+              <TableHead className="text-right">Digits</TableHead>
+              <TableHead>Example</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {numbering.map((row) => (
+              <TableRow key={row.document_type}>
+                <TableCell className="font-medium">{documentLabels[row.document_type]}</TableCell>
+                <TableCell className="font-mono text-sm">{row.prefix}</TableCell>
+                <TableCell className="text-right">{row.padding}</TableCell>
+                <TableCell className="font-mono text-sm text-muted-foreground">
+                  {formatReference(row.prefix, row.padding, sampleCode, 42)}
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => openEditDialog(row)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Each warehouse numbers its own documents. {WAREHOUSE_TOKEN} is replaced by the
+          warehouse code. Changes apply to documents created from now on.
+        </p>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? documentLabels[editing.document_type] : ""} Numbering
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="numbering-prefix">Prefix *</Label>
+              <Input
+                id="numbering-prefix"
+                value={formData.prefix}
+                onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+                placeholder={`${WAREHOUSE_TOKEN}/IN/`}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="numbering-padding">Digits *</Label>
+              <Input
+                id="numbering-padding"
+                type="number"
+                min="1"
+                max="10"
+                value={formData.padding}
+                onChange={(e) => setFormData({ ...formData, padding: e.target.value })}
+                required
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Next references look like{" "}
+              <span className="font-mono text-foreground">
+                {formatReference(formData.prefix.trim(), previewPadding, sampleCode, 42)}
+              </span>
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                Save Changes
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DocumentNumberingSettings;
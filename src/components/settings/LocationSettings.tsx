@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Trash2, MapPin } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildTree, type TreeNode } from "@/lib/tree";
+
+type LocationType = (typeof Constants.public.Enums.location_type)[number];
+
+interface Location {
+  id: string;
+  warehouse_id: string;
+  parent_id: string | null;
+  location_type: LocationType;
+  code: string;
+  name: string;
+  is_active: boolean;
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+const locationTypes = Constants.public.Enums.location_type;
+
+// Zones hold aisles, aisles hold racks, racks hold bins
+const childType = (type: LocationType): LocationType | null =>
+  locationTypes[locationTypes.indexOf(type) + 1] ?? null;
+
+const emptyForm = {
+  code: "",
+  name: "",
+  is_active: true,
+};
+
+const LocationSettings = () => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseId, setWarehouseId] = useState("");
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [parentLocation, setParentLocation] = useState<Location | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setWarehouses(data || []);
+      if (data && data.length > 0) setWarehouseId(data[0].id);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  const fetchLocations = useCallback(async () => {
+    if (!warehouseId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("locations")
+        .select("*")
+        .eq("warehouse_id", warehouseId);
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      toast.error("Failed to load locations");
+    }
+  }, [warehouseId]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const newLocationType = editingLocation
+    ? editingLocation.location_type
+    : parentLocation
+      ? childType(parentLocation.location_type)
+      : "zone";
+
+  const openCreateDialog = (parent: Location | null) => {
+    setEditingLocation(null);
+    setParentLocation(parent);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (location: Location) => {
+    setEditingLocation(location);
+    setParentLocation(null);
+    setFormData({
+      code: location.code,
+      name: location.name,
+      is_active: location.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const code = formData.code.trim().toUpperCase();
+
+    try {
+      const { error } = editingLocation
+        ? await supabase
+            .from("locations")
+            .update({ code, name: formData.name.trim(), is_active: formData.is_active })
+            .eq("id", editingLocation.id)
+        : await supabase.from("locations").insert([
+            {
+              warehouse_id: warehouseId,
+              parent_id: parentLocation?.id ?? null,
+              location_type: newLocationType,
+              code,
+              name: formData.name.trim(),
+              is_active: formData.is_active,
+            },
+          ]);
+
+      if (error) {
+        toast.error(
+          error.code === "23505"
+            ? `Location code "${code}" is already used in this warehouse`
+            : error.message
+        );
+        return;
+      }
+
+      toast.success(editingLocation ? "Location updated" : "Location created");
+      setDialogOpen(false);
+      fetchLocations();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (location: Location) => {
+    const { error } = await supabase.from("locations").delete().eq("id", location.id);
+
+    if (error) {
+      toast.error(
+        error.code === "23503"
+          ? `${location.code} has sub-locations or stock history and cannot be deleted. Deactivate it instead.`
+          : error.message
+      );
+      return;
+    }
+
+    toast.success("Location deleted");
+    fetchLocations();
+  };
+
+  const renderNode = (node: TreeNode<Location>) => {
+    const { item: location } = node;
+    const nextType = childType(location.location_type);
+
+    return (
+      <div key={location.id}>
+        <div
+          className="flex items-center justify-between rounded-lg px-2 py-2 hover:bg-muted"
+          style={{ paddingLeft: `${node.depth * 1.5 + 0.5}rem` }}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Badge variant="outline" className="capitalize">
+              {location.location_type}
+            </Badge>
+            <span className="font-medium">{location.code}</span>
+            <span className="text-sm text-muted-foreground truncate">{location.name}</span>
+            {!location.is_active && <Badge variant="secondary">inactive</Badge>}
+          </div>
+          <div className="flex gap-1 shrink-0">
+            {nextType && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title={`Add ${nextType}`}
+                onClick={() => openCreateDialog(location)}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => openEditDialog(location)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => handleDelete(location)}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+        {node.children.map(renderNode)}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle>Locations</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select warehouse" />
+            </SelectTrigger>
+            <SelectContent>
+              {warehouses.map((wh) => (
+                <SelectItem key={wh.id} value={wh.id}>
+                  {wh.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => openCreateDialog(null)} disabled={!warehouseId}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Zone
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {locations.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No locations in this warehouse yet</p>
+            <p className="text-sm mt-1">Start with a zone, then add aisles, racks and bins</p>
+          </div>
+        ) : (
+          <div>{buildTree(locations).map(renderNode)}</div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {editingLocation ? `Edit ${newLocationType}` : `Add ${newLocationType}`}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {parentLocation && (
+              <p className="text-sm text-muted-foreground">
+                Inside {parentLocation.location_type} {parentLocation.code}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="location-code">Code *</Label>
+                <Input
+                  id="location-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  placeholder="A-01-03"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-name">Name *</Label>
+                <Input
+                  id="location-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="location-active">Active</Label>
+              <Switch
+                id="location-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {editingLocation ? "Save Changes" : "Create Location"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LocationSettings;
@@ -0,0 +1,401 @@
+import { useEffect, useState } from "react";
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Trash2, Warehouse as WarehouseIcon, Boxes } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface Warehouse {
+  id: string;
+  name: string;
+  code: string;
+  address: string | null;
+  is_active: boolean;
+}
+
+interface StockLine {
+  product_id: string;
+  quantity: number;
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+}
+
+interface StockSummary {
+  productCount: number;
+  totalQuantity: number;
+  lines: StockLine[];
+}
+
+const emptyForm = {
+  name: "",
+  code: "",
+  address: "",
+  is_active: true,
+};
+
+// Turn database errors into messages an admin can act on
+const describeError = (error: PostgrestError, code: string) => {
+  switch (error.code) {
+    case "23505":
+      return `A warehouse with code "${code}" already exists`;
+    case "23503":
+      return "This warehouse is used by documents or stock movements and cannot be deleted. Deactivate it instead.";
+    case "42501":
+      return "Only admins can manage warehouses";
+    default:
+      return error.message;
+  }
+};
+
+const WarehouseSettings = () => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, StockSummary>>({});
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [stockWarehouse, setStockWarehouse] = useState<Warehouse | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchWarehouses();
+    fetchSummaries();
+  }, []);
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+      toast.error("Failed to load warehouses");
+    }
+  };
+
+  const fetchSummaries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("product_id, warehouse_id, quantity, products(name, sku, unit_of_measure)")
+        .neq("quantity", 0);
+
+      if (error) throw error;
+
+      const result: Record<string, StockSummary> = {};
+      (data || []).forEach((balance) => {
+        if (!balance.warehouse_id || !balance.product_id) return;
+        const summary = (result[balance.warehouse_id] ??= {
+          productCount: 0,
+          totalQuantity: 0,
+          lines: [],
+        });
+        const quantity = Number(balance.quantity ?? 0);
+        summary.totalQuantity += quantity;
+
+        // Balances come per location, so a product can appear more than once
+        const line = summary.lines.find((l) => l.product_id === balance.product_id);
+        if (line) {
+          line.quantity += quantity;
+          return;
+        }
+        summary.productCount += 1;
+        summary.lines.push({
+          product_id: balance.product_id,
+          quantity,
+          products: balance.products,
+        });
+      });
+      setSummaries(result);
+    } catch (error) {
+      console.error("Error fetching stock summaries:", error);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingWarehouse(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (warehouse: Warehouse) => {
+    setEditingWarehouse(warehouse);
+    setFormData({
+      name: warehouse.name,
+      code: warehouse.code,
+      address: warehouse.address || "",
+      is_active: warehouse.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const holdsStock = (warehouse: Warehouse) =>
+    (summaries[warehouse.id]?.productCount || 0) > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim().toUpperCase();
+
+    if (editingWarehouse?.is_active && !formData.is_active && holdsStock(editingWarehouse)) {
+      toast.error(
+        `${editingWarehouse.name} still holds stock. Transfer or adjust it to zero before deactivating.`
+      );
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const values = {
+        name: formData.name.trim(),
+        code,
+        address: formData.address.trim() || null,
+        is_active: formData.is_active,
+      };
+
+      const { error } = editingWarehouse
+        ? await supabase.from("warehouses").update(values).eq("id", editingWarehouse.id)
+        : await supabase.from("warehouses").insert([values]);
+
+      if (error) {
+        toast.error(describeError(error, code));
+        return;
+      }
+
+      toast.success(editingWarehouse ? "Warehouse updated" : "Warehouse created");
+      setDialogOpen(false);
+      fetchWarehouses();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (holdsStock(warehouse)) {
+      toast.error(`${warehouse.name} still holds stock and cannot be deleted`);
+      return;
+    }
+
+    const { error } = await supabase.from("warehouses").delete().eq("id", warehouse.id);
+
+    if (error) {
+      toast.error(describeError(error, warehouse.code));
+      return;
+    }
+
+    toast.success("Warehouse deleted");
+    fetchWarehouses();
+  };
+
+  const stockLines = stockWarehouse ? summaries[stockWarehouse.id]?.lines || [] : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Warehouses</CardTitle>
+        <Button size="sm" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Warehouse
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {warehouses.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <WarehouseIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No warehouses yet</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Warehouse</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead className="text-right">Products in Stock</TableHead>
+                <TableHead className="text-right">Total Units</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {warehouses.map((warehouse) => (
+                <TableRow key={warehouse.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{warehouse.name}</p>
+                      {!warehouse.is_active && <Badge variant="secondary">inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{warehouse.code}</p>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {warehouse.address || "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {summaries[warehouse.id]?.productCount || 0}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {summaries[warehouse.id]?.totalQuantity || 0}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="View stock"
+                        onClick={() => setStockWarehouse(warehouse)}
+                      >
+                        <Boxes className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditDialog(warehouse)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(warehouse)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingWarehouse ? "Edit Warehouse" : "Create New Warehouse"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-name">Name *</Label>
+                <Input
+                  id="warehouse-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-code">Code *</Label>
+                <Input
+                  id="warehouse-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  placeholder="WH-MAIN"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="warehouse-address">Address</Label>
+              <Textarea
+                id="warehouse-address"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="warehouse-active">Active</Label>
+                {editingWarehouse && holdsStock(editingWarehouse) && (
+                  <p className="text-xs text-muted-foreground">
+                    Holds stock, so it cannot be deactivated
+                  </p>
+                )}
+              </div>
+              <Switch
+                id="warehouse-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                disabled={!!editingWarehouse && editingWarehouse.is_active && holdsStock(editingWarehouse)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {editingWarehouse ? "Save Changes" : "Create Warehouse"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!stockWarehouse} onOpenChange={(open) => !open && setStockWarehouse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Stock in {stockWarehouse?.name}</DialogTitle>
+          </DialogHeader>
+          {stockLines.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Boxes className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>This warehouse holds no stock</p>
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockLines.map((line) => (
+                    <TableRow key={line.product_id}>
+                      <TableCell>
+                        <p className="font-medium">{line.products?.name}</p>
+                        <p className="text-xs text-muted-foreground">SKU: {line.products?.sku}</p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.quantity} {line.products?.unit_of_measure}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default WarehouseSettings;
@@ -0,0 +1,28 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Managers and admins may undo posted stock; the database enforces the same rule
+export function useIsManager() {
+  const [isManager, setIsManager] = React.useState(false);
+
+  React.useEffect(() => {
+    let active = true;
+
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) return;
+
+      const [admin, manager] = await Promise.all([
+        supabase.rpc("has_role", { _user_id: session.user.id, _role: "admin" }),
+        supabase.rpc("has_role", { _user_id: session.user.id, _role: "manager" }),
+      ]);
+
+      if (active) setIsManager(!!admin.data || !!manager.data);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return isManager;
+}
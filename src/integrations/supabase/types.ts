@@ -14,12 +14,87 @@ export type Database = {
   }
   public: {
     Tables: {
+      adjustments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          location_id: string | null
+          lot_id: string | null
+          notes: string | null
+          product_id: string
+          quantity: number
+          reason: Database["public"]["Enums"]["adjustment_reason"]
+          reference: string
+          serial_numbers: string[]
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reason: Database["public"]["Enums"]["adjustment_reason"]
+          reference?: string
+          serial_numbers?: string[]
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reason?: Database["public"]["Enums"]["adjustment_reason"]
+          reference?: string
+          serial_numbers?: string[]
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "adjustments_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adjustments_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adjustments_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adjustments_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
           description: string | null
           id: string
           name: string
+          parent_id: string | null
           updated_at: string
         }
         Insert: {
@@ -27,6 +102,7 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          parent_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -34,46 +110,144 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_addresses: {
+        Row: {
+          address: string
+          created_at: string
+          customer_id: string
+          id: string
+          is_default: boolean
+          label: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          is_default?: boolean
+          label?: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          is_default?: boolean
+          label?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_addresses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          phone?: string | null
           updated_at?: string
         }
         Relationships: []
       }
       deliveries: {
         Row: {
+          backorder_of_id: string | null
+          cancel_reason: string | null
+          canceled_at: string | null
+          canceled_by: string | null
           created_at: string
           created_by: string | null
-          customer_name: string
+          customer_id: string
           delivered_date: string | null
           id: string
           notes: string | null
           reference: string
+          sales_order_id: string | null
           scheduled_date: string | null
+          shipping_address_id: string | null
           status: Database["public"]["Enums"]["stock_status"]
           updated_at: string
           warehouse_id: string
         }
         Insert: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          canceled_by?: string | null
           created_at?: string
           created_by?: string | null
-          customer_name: string
+          customer_id: string
           delivered_date?: string | null
           id?: string
           notes?: string | null
-          reference: string
+          reference?: string
+          sales_order_id?: string | null
           scheduled_date?: string | null
+          shipping_address_id?: string | null
           status?: Database["public"]["Enums"]["stock_status"]
           updated_at?: string
           warehouse_id: string
         }
         Update: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          canceled_by?: string | null
           created_at?: string
           created_by?: string | null
-          customer_name?: string
+          customer_id?: string
           delivered_date?: string | null
           id?: string
           notes?: string | null
           reference?: string
+          sales_order_id?: string | null
           scheduled_date?: string | null
+          shipping_address_id?: string | null
           status?: Database["public"]["Enums"]["stock_status"]
           updated_at?: string
           warehouse_id?: string
@@ -86,6 +260,34 @@ export type Database = {
             referencedRelation: "warehouses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deliveries_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_shipping_address_id_fkey"
+            columns: ["shipping_address_id"]
+            isOneToOne: false
+            referencedRelation: "customer_addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_backorder_of_id_fkey"
+            columns: ["backorder_of_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
         ]
       }
       delivery_lines: {
@@ -94,26 +296,45 @@ export type Database = {
           delivered_quantity: number | null
           delivery_id: string
           id: string
+          location_id: string | null
+          lot_id: string | null
           product_id: string
           quantity: number
+          sales_order_line_id: string | null
+          serial_numbers: string[]
         }
         Insert: {
           created_at?: string
           delivered_quantity?: number | null
           delivery_id: string
           id?: string
+          location_id?: string | null
+          lot_id?: string | null
           product_id: string
           quantity: number
+          sales_order_line_id?: string | null
+          serial_numbers?: string[]
         }
         Update: {
           created_at?: string
           delivered_quantity?: number | null
           delivery_id?: string
           id?: string
+          location_id?: string | null
+          lot_id?: string | null
           product_id?: string
           quantity?: number
+          sales_order_line_id?: string | null
+          serial_numbers?: string[]
         }
         Relationships: [
+          {
+            foreignKeyName: "delivery_lines_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "delivery_lines_delivery_id_fkey"
             columns: ["delivery_id"]
@@ -121,6 +342,13 @@ export type Database = {
             referencedRelation: "deliveries"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "delivery_lines_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "delivery_lines_product_id_fkey"
             columns: ["product_id"]
@@ -128,6 +356,135 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "delivery_lines_sales_order_line_id_fkey"
+            columns: ["sales_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "sales_order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_numbering: {
+        Row: {
+          created_at: string
+          document_type: Database["public"]["Enums"]["document_type"]
+          padding: number
+          prefix: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          document_type: Database["public"]["Enums"]["document_type"]
+          padding?: number
+          prefix: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: Database["public"]["Enums"]["document_type"]
+          padding?: number
+          prefix?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_sequences: {
+        Row: {
+          last_number: number
+          prefix: string
+        }
+        Insert: {
+          last_number?: number
+          prefix: string
+        }
+        Update: {
+          last_number?: number
+          prefix?: string
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          location_type: Database["public"]["Enums"]["location_type"]
+          name: string
+          parent_id: string | null
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_type: Database["public"]["Enums"]["location_type"]
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_type?: Database["public"]["Enums"]["location_type"]
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locations_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lots: {
+        Row: {
+          created_at: string
+          expiry_date: string | null
+          id: string
+          lot_number: string
+          product_id: string
+        }
+        Insert: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          lot_number: string
+          product_id: string
+        }
+        Update: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          lot_number?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
         ]
       }
       products: {
@@ -137,6 +494,8 @@ export type Database = {
           description: string | null
           id: string
           is_active: boolean
+          is_lot_tracked: boolean
+          is_serial_tracked: boolean
           name: string
           reorder_level: number | null
           sku: string
@@ -149,6 +508,8 @@ export type Database = {
           description?: string | null
           id?: string
           is_active?: boolean
+          is_lot_tracked?: boolean
+          is_serial_tracked?: boolean
           name: string
           reorder_level?: number | null
           sku: string
@@ -161,6 +522,8 @@ export type Database = {
           description?: string | null
           id?: string
           is_active?: boolean
+          is_lot_tracked?: boolean
+          is_serial_tracked?: boolean
           name?: string
           reorder_level?: number | null
           sku?: string
@@ -201,91 +564,98 @@ export type Database = {
         }
         Relationships: []
       }
-      receipt_lines: {
+      purchase_order_lines: {
         Row: {
           created_at: string
           id: string
           product_id: string
+          purchase_order_id: string
           quantity: number
-          receipt_id: string
-          received_quantity: number | null
+          unit_price: number
         }
         Insert: {
           created_at?: string
           id?: string
           product_id: string
+          purchase_order_id: string
           quantity: number
-          receipt_id: string
-          received_quantity?: number | null
+          unit_price?: number
         }
         Update: {
           created_at?: string
           id?: string
           product_id?: string
+          purchase_order_id?: string
           quantity?: number
-          receipt_id?: string
-          received_quantity?: number | null
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "receipt_lines_product_id_fkey"
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "receipt_lines_receipt_id_fkey"
-            columns: ["receipt_id"]
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "receipts"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      receipts: {
+      purchase_orders: {
         Row: {
+          confirmed_date: string | null
           created_at: string
           created_by: string | null
+          expected_date: string | null
           id: string
           notes: string | null
-          received_date: string | null
           reference: string
-          scheduled_date: string | null
-          status: Database["public"]["Enums"]["stock_status"]
-          supplier_name: string
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
           updated_at: string
           warehouse_id: string
         }
         Insert: {
+          confirmed_date?: string | null
           created_at?: string
           created_by?: string | null
+          expected_date?: string | null
           id?: string
           notes?: string | null
-          received_date?: string | null
-          reference: string
-          scheduled_date?: string | null
-          status?: Database["public"]["Enums"]["stock_status"]
-          supplier_name: string
+          reference?: string
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
           updated_at?: string
           warehouse_id: string
         }
         Update: {
+          confirmed_date?: string | null
           created_at?: string
           created_by?: string | null
+          expected_date?: string | null
           id?: string
           notes?: string | null
-          received_date?: string | null
           reference?: string
-          scheduled_date?: string | null
-          status?: Database["public"]["Enums"]["stock_status"]
-          supplier_name?: string
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id?: string
           updated_at?: string
           warehouse_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "receipts_warehouse_id_fkey"
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_warehouse_id_fkey"
             columns: ["warehouse_id"]
             isOneToOne: false
             referencedRelation: "warehouses"
@@ -293,54 +663,566 @@ export type Database = {
           },
         ]
       }
-      stock_movements: {
+      receipt_lines: {
         Row: {
-          balance_after: number
           created_at: string
-          created_by: string | null
+          expiry_date: string | null
           id: string
-          movement_type: Database["public"]["Enums"]["movement_type"]
-          notes: string | null
+          location_id: string | null
+          lot_number: string | null
           product_id: string
+          purchase_order_line_id: string | null
           quantity: number
-          reference_id: string | null
+          receipt_id: string
+          received_quantity: number | null
+          serial_numbers: string[]
+        }
+        Insert: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          location_id?: string | null
+          lot_number?: string | null
+          product_id: string
+          purchase_order_line_id?: string | null
+          quantity: number
+          receipt_id: string
+          received_quantity?: number | null
+          serial_numbers?: string[]
+        }
+        Update: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          location_id?: string | null
+          lot_number?: string | null
+          product_id?: string
+          purchase_order_line_id?: string | null
+          quantity?: number
+          receipt_id?: string
+          received_quantity?: number | null
+          serial_numbers?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_lines_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipts: {
+        Row: {
+          backorder_of_id: string | null
+          cancel_reason: string | null
+          canceled_at: string | null
+          canceled_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          purchase_order_id: string | null
+          received_date: string | null
+          reference: string
+          scheduled_date: string | null
+          status: Database["public"]["Enums"]["stock_status"]
+          supplier_id: string
+          updated_at: string
+          warehouse_id: string
+        }
+        Insert: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          canceled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string | null
+          received_date?: string | null
+          reference?: string
+          scheduled_date?: string | null
+          status?: Database["public"]["Enums"]["stock_status"]
+          supplier_id: string
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          backorder_of_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          canceled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string | null
+          received_date?: string | null
+          reference?: string
+          scheduled_date?: string | null
+          status?: Database["public"]["Enums"]["stock_status"]
+          supplier_id?: string
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_backorder_of_id_fkey"
+            columns: ["backorder_of_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          sales_order_id: string
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          sales_order_id: string
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          sales_order_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_orders: {
+        Row: {
+          confirmed_date: string | null
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          id: string
+          notes: string | null
+          reference: string
+          requested_ship_date: string | null
+          shipping_address_id: string | null
+          status: Database["public"]["Enums"]["sales_order_status"]
+          updated_at: string
           warehouse_id: string
         }
         Insert: {
-          balance_after: number
+          confirmed_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          notes?: string | null
+          reference?: string
+          requested_ship_date?: string | null
+          shipping_address_id?: string | null
+          status?: Database["public"]["Enums"]["sales_order_status"]
+          updated_at?: string
+          warehouse_id: string
+        }
+        Update: {
+          confirmed_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          notes?: string | null
+          reference?: string
+          requested_ship_date?: string | null
+          shipping_address_id?: string | null
+          status?: Database["public"]["Enums"]["sales_order_status"]
+          updated_at?: string
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_orders_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_shipping_address_id_fkey"
+            columns: ["shipping_address_id"]
+            isOneToOne: false
+            referencedRelation: "customer_addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      serials: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          serial_number: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          serial_number: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          serial_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "serials_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: string
+          location_id: string | null
+          lot_id: string | null
+          movement_type: Database["public"]["Enums"]["movement_type"]
+          notes: string | null
+          product_id: string
+          quantity: number
+          reference_id: string | null
+          reverses_movement_id: string | null
+          serial_id: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          movement_type: Database["public"]["Enums"]["movement_type"]
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reference_id?: string | null
+          reverses_movement_id?: string | null
+          serial_id?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          lot_id?: string | null
+          movement_type?: Database["public"]["Enums"]["movement_type"]
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reference_id?: string | null
+          reverses_movement_id?: string | null
+          serial_id?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reverses_movement_id_fkey"
+            columns: ["reverses_movement_id"]
+            isOneToOne: true
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          is_active: boolean
+          lead_time_days: number
+          name: string
+          notes: string | null
+          payment_terms: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name?: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transfer_lines: {
+        Row: {
+          created_at: string
+          destination_location_id: string | null
+          id: string
+          lot_id: string | null
+          product_id: string
+          quantity: number
+          serial_numbers: string[]
+          source_location_id: string | null
+          transfer_id: string
+        }
+        Insert: {
+          created_at?: string
+          destination_location_id?: string | null
+          id?: string
+          lot_id?: string | null
+          product_id: string
+          quantity: number
+          serial_numbers?: string[]
+          source_location_id?: string | null
+          transfer_id: string
+        }
+        Update: {
+          created_at?: string
+          destination_location_id?: string | null
+          id?: string
+          lot_id?: string | null
+          product_id?: string
+          quantity?: number
+          serial_numbers?: string[]
+          source_location_id?: string | null
+          transfer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfer_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfer_lines_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfer_lines_source_location_id_fkey"
+            columns: ["source_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfer_lines_destination_location_id_fkey"
+            columns: ["destination_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          destination_warehouse_id: string
+          id: string
+          notes: string | null
+          received_date: string | null
+          reference: string
+          scheduled_date: string | null
+          shipped_date: string | null
+          source_warehouse_id: string
+          status: Database["public"]["Enums"]["transfer_status"]
+          updated_at: string
+        }
+        Insert: {
           created_at?: string
           created_by?: string | null
+          destination_warehouse_id: string
           id?: string
-          movement_type: Database["public"]["Enums"]["movement_type"]
           notes?: string | null
-          product_id: string
-          quantity: number
-          reference_id?: string | null
-          warehouse_id: string
+          received_date?: string | null
+          reference?: string
+          scheduled_date?: string | null
+          shipped_date?: string | null
+          source_warehouse_id: string
+          status?: Database["public"]["Enums"]["transfer_status"]
+          updated_at?: string
         }
         Update: {
-          balance_after?: number
           created_at?: string
           created_by?: string | null
+          destination_warehouse_id?: string
           id?: string
-          movement_type?: Database["public"]["Enums"]["movement_type"]
           notes?: string | null
-          product_id?: string
-          quantity?: number
-          reference_id?: string | null
-          warehouse_id?: string
+          received_date?: string | null
+          reference?: string
+          scheduled_date?: string | null
+          shipped_date?: string | null
+          source_warehouse_id?: string
+          status?: Database["public"]["Enums"]["transfer_status"]
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stock_movements_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "transfers_destination_warehouse_id_fkey"
+            columns: ["destination_warehouse_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "warehouses"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_movements_warehouse_id_fkey"
-            columns: ["warehouse_id"]
+            foreignKeyName: "transfers_source_warehouse_id_fkey"
+            columns: ["source_warehouse_id"]
             isOneToOne: false
             referencedRelation: "warehouses"
             referencedColumns: ["id"]
@@ -400,13 +1282,245 @@ export type Database = {
       }
     }
     Views: {
+      delivery_backorders: {
+        Row: {
+          backorder_of_id: string | null
+          backorder_of_reference: string | null
+          created_at: string | null
+          customer_id: string | null
+          customer_name: string | null
+          delivery_id: string | null
+          delivery_line_id: string | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          reference: string | null
+          sales_order_id: string | null
+          sku: string | null
+          status: Database["public"]["Enums"]["stock_status"] | null
+          unit_of_measure: string | null
+          warehouse_id: string | null
+          warehouse_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliveries_backorder_of_id_fkey"
+            columns: ["backorder_of_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lot_balances: {
+        Row: {
+          expiry_date: string | null
+          lot_id: string | null
+          lot_number: string | null
+          product_id: string | null
+          quantity: number | null
+          warehouse_id: string | null
+          warehouse_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      low_stock_items: {
+        Row: {
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          reorder_level: number | null
+          sku: string | null
+          unit_of_measure: string | null
+          warehouse_id: string | null
+          warehouse_name: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_line_progress: {
+        Row: {
+          ordered_quantity: number | null
+          product_id: string | null
+          purchase_order_id: string | null
+          purchase_order_line_id: string | null
+          received_quantity: number | null
+          unit_price: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_line_progress: {
+        Row: {
+          delivered_quantity: number | null
+          ordered_quantity: number | null
+          planned_quantity: number | null
+          product_id: string | null
+          sales_order_id: string | null
+          sales_order_line_id: string | null
+          unit_price: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_availability: {
+        Row: {
+          available_to_promise: number | null
+          incoming: number | null
+          on_hand: number | null
+          product_id: string | null
+          product_name: string | null
+          reserved: number | null
+          sku: string | null
+          unit_of_measure: string | null
+          warehouse_id: string | null
+          warehouse_name: string | null
+        }
+        Relationships: []
+      }
       stock_balances: {
         Row: {
+          location_id: string | null
+          product_id: string | null
+          quantity: number | null
+          warehouse_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_ledger: {
+        Row: {
+          balance_after: number | null
+          created_at: string | null
+          created_by: string | null
+          created_by_email: string | null
+          created_by_name: string | null
+          document_reference: string | null
+          id: string | null
+          location_code: string | null
+          location_id: string | null
+          lot_id: string | null
+          lot_number: string | null
+          movement_type: Database["public"]["Enums"]["movement_type"] | null
+          notes: string | null
           product_id: string | null
+          product_name: string | null
           quantity: number | null
+          reference_id: string | null
+          reverses_movement_id: string | null
+          serial_id: string | null
+          serial_number: string | null
+          sku: string | null
+          unit_of_measure: string | null
           warehouse_id: string | null
+          warehouse_name: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_movements_product_id_fkey"
             columns: ["product_id"]
@@ -421,10 +1535,75 @@ export type Database = {
             referencedRelation: "warehouses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_movements_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serials"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Functions: {
+      available_to_promise: {
+        Args: {
+          _exclude_delivery_id?: string
+          _product_id: string
+          _warehouse_id: string
+        }
+        Returns: number
+      }
+      clean_serial_numbers: {
+        Args: {
+          _serial_numbers: string[]
+        }
+        Returns: string[]
+      }
+      confirm_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: string
+      }
+      confirm_sales_order: {
+        Args: {
+          _sales_order_id: string
+        }
+        Returns: string
+      }
+      create_adjustment: {
+        Args: {
+          _location_id?: string
+          _lot_id?: string
+          _notes?: string
+          _product_id: string
+          _quantity: number
+          _reason: Database["public"]["Enums"]["adjustment_reason"]
+          _serial_numbers?: string[]
+          _warehouse_id: string
+        }
+        Returns: string
+      }
+      create_sales_order_delivery: {
+        Args: {
+          _sales_order_id: string
+        }
+        Returns: string
+      }
+      delete_category: {
+        Args: {
+          _category_id: string
+          _reassign_to?: string
+        }
+        Returns: undefined
+      }
+      dispatch_transfer: {
+        Args: {
+          _transfer_id: string
+        }
+        Returns: undefined
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -432,11 +1611,120 @@ export type Database = {
         }
         Returns: boolean
       }
+      lock_transfer_for_posting: {
+        Args: {
+          _transfer_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          destination_warehouse_id: string
+          id: string
+          notes: string | null
+          received_date: string | null
+          reference: string
+          scheduled_date: string | null
+          shipped_date: string | null
+          source_warehouse_id: string
+          status: Database["public"]["Enums"]["transfer_status"]
+          updated_at: string
+        }
+      }
+      next_document_reference: {
+        Args: {
+          _document_type: Database["public"]["Enums"]["document_type"]
+          _warehouse_id: string
+        }
+        Returns: string
+      }
+      normalize_party_name: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      post_stock_movement: {
+        Args: {
+          _location_id?: string
+          _lot_id?: string
+          _movement_type: Database["public"]["Enums"]["movement_type"]
+          _notes?: string
+          _product_id: string
+          _quantity: number
+          _reference_id: string
+          _reverses_movement_id?: string
+          _serial_id?: string
+          _warehouse_id: string
+        }
+        Returns: number
+      }
+      reverse_delivery: {
+        Args: {
+          _delivery_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      reverse_receipt: {
+        Args: {
+          _reason: string
+          _receipt_id: string
+        }
+        Returns: undefined
+      }
+      validate_delivery: {
+        Args: {
+          _delivery_id: string
+          _ship_available?: boolean
+        }
+        Returns: string
+      }
+      validate_receipt: {
+        Args: {
+          _create_backorder?: boolean
+          _receipt_id: string
+        }
+        Returns: string
+      }
+      validate_transfer: {
+        Args: {
+          _transfer_id: string
+        }
+        Returns: undefined
+      }
+      warehouse_has_locations: {
+        Args: {
+          _warehouse_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
+      adjustment_reason: "damage" | "theft" | "found" | "correction"
       app_role: "admin" | "manager" | "staff"
+      document_type:
+        | "receipt"
+        | "delivery"
+        | "transfer"
+        | "adjustment"
+        | "purchase_order"
+        | "sales_order"
+      location_type: "zone" | "aisle" | "rack" | "bin"
       movement_type: "receipt" | "delivery" | "transfer" | "adjustment"
+      purchase_order_status:
+        | "draft"
+        | "confirmed"
+        | "partially_received"
+        | "received"
+        | "canceled"
+      sales_order_status:
+        | "draft"
+        | "confirmed"
+        | "partially_delivered"
+        | "delivered"
+        | "canceled"
       stock_status: "draft" | "waiting" | "ready" | "done" | "canceled"
+      transfer_status: "draft" | "in_transit" | "done" | "canceled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -564,9 +1852,34 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      adjustment_reason: ["damage", "theft", "found", "correction"],
       app_role: ["admin", "manager", "staff"],
+      document_type: [
+        "receipt",
+        "delivery",
+        "transfer",
+        "adjustment",
+        "purchase_order",
+        "sales_order",
+      ],
+      location_type: ["zone", "aisle", "rack", "bin"],
       movement_type: ["receipt", "delivery", "transfer", "adjustment"],
+      purchase_order_status: [
+        "draft",
+        "confirmed",
+        "partially_received",
+        "received",
+        "canceled",
+      ],
+      sales_order_status: [
+        "draft",
+        "confirmed",
+        "partially_delivered",
+        "delivered",
+        "canceled",
+      ],
       stock_status: ["draft", "waiting", "ready", "done", "canceled"],
+      transfer_status: ["draft", "in_transit", "done", "canceled"],
     },
   },
 } as const
@@ -0,0 +1,35 @@
+export interface BackorderRecord {
+  id: string;
+  backorder_of_id: string | null;
+}
+
+export interface BackorderEntry<T extends BackorderRecord> {
+  item: T;
+  depth: number;
+}
+
+// Group documents into backorder chains: each original is followed by its
+// backorders (and theirs), indented by depth. Originals keep the list order;
+// a backorder whose original is missing from the list starts its own chain.
+export function groupBackorderChains<T extends BackorderRecord>(records: T[]): BackorderEntry<T>[] {
+  const ids = new Set(records.map((record) => record.id));
+  const byOriginal = new Map<string, T[]>();
+
+  records.forEach((record) => {
+    if (record.backorder_of_id && ids.has(record.backorder_of_id)) {
+      byOriginal.set(record.backorder_of_id, [
+        ...(byOriginal.get(record.backorder_of_id) || []),
+        record,
+      ]);
+    }
+  });
+
+  const chain = (record: T, depth: number): BackorderEntry<T>[] => [
+    { item: record, depth },
+    ...(byOriginal.get(record.id) || []).flatMap((backorder) => chain(backorder, depth + 1)),
+  ];
+
+  return records
+    .filter((record) => !record.backorder_of_id || !ids.has(record.backorder_of_id))
+    .flatMap((record) => chain(record, 0));
+}
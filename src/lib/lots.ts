@@ -0,0 +1,46 @@
+export type ExpiryStatus = "expired" | "expiring" | "ok";
+
+// Lots expiring within this many days are flagged as expiring soon
+export const EXPIRY_WARNING_DAYS = 30;
+
+export function getExpiryStatus(expiryDate: string | null, today = new Date()): ExpiryStatus {
+  if (!expiryDate) return "ok";
+
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const expiry = new Date(`${expiryDate}T00:00:00`);
+  const daysLeft = (expiry.getTime() - start.getTime()) / (24 * 60 * 60 * 1000);
+
+  if (daysLeft < 0) return "expired";
+  if (daysLeft <= EXPIRY_WARNING_DAYS) return "expiring";
+  return "ok";
+}
+
+export function formatExpiry(expiryDate: string | null): string {
+  return expiryDate ? new Date(`${expiryDate}T00:00:00`).toLocaleDateString() : "No expiry";
+}
+
+interface LotLike {
+  lot_id: string | null;
+  lot_number: string | null;
+  expiry_date: string | null;
+  quantity: number | null;
+}
+
+// First-expired-first-out: earliest expiry first, lots without an expiry last
+export function sortFefo<T extends LotLike>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiry_date === b.expiry_date) {
+      return (a.lot_number ?? "").localeCompare(b.lot_number ?? "");
+    }
+    if (!a.expiry_date) return 1;
+    if (!b.expiry_date) return -1;
+    return a.expiry_date.localeCompare(b.expiry_date);
+  });
+}
+
+// The lot FEFO says to pull next: the earliest-expiring lot that is in stock and not expired
+export function suggestLot<T extends LotLike>(lots: T[]): T | undefined {
+  return sortFefo(lots).find(
+    (lot) => Number(lot.quantity ?? 0) > 0 && getExpiryStatus(lot.expiry_date) !== "expired"
+  );
+}
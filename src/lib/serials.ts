@@ -0,0 +1,11 @@
+// Serials are entered one per line (or comma separated), e.g. from a barcode scanner
+export function parseSerials(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(/[\n,]/)
+        .map((serial) => serial.trim())
+        .filter(Boolean)
+    )
+  );
+}
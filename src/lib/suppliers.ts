@@ -0,0 +1,6 @@
+// The supplier's default lead time counted from today, as a yyyy-mm-dd date input value
+export function expectedArrival(leadTimeDays: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + leadTimeDays);
+  return date.toLocaleDateString("en-CA");
+}
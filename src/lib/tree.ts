@@ -0,0 +1,66 @@
+export interface TreeRecord {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export interface TreeNode<T extends TreeRecord = TreeRecord> {
+  item: T;
+  depth: number;
+  children: TreeNode<T>[];
+}
+
+// Build a forest from parent_id links, sorting siblings by name. Records
+// whose parent is missing from the list are treated as top-level.
+export function buildTree<T extends TreeRecord>(records: T[]): TreeNode<T>[] {
+  const ids = new Set(records.map((record) => record.id));
+  const byParent = new Map<string | null, T[]>();
+
+  records.forEach((record) => {
+    const parentId = record.parent_id && ids.has(record.parent_id) ? record.parent_id : null;
+    byParent.set(parentId, [...(byParent.get(parentId) || []), record]);
+  });
+
+  const build = (parentId: string | null, depth: number): TreeNode<T>[] =>
+    (byParent.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((item) => ({
+        item,
+        depth,
+        children: build(item.id, depth + 1),
+      }));
+
+  return build(null, 0);
+}
+
+// Depth-first list of the tree, for indented selects
+export function flattenTree<T extends TreeRecord>(nodes: TreeNode<T>[]): TreeNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenTree(node.children)]);
+}
+
+// The record itself plus every record below it
+export function getDescendantIds(records: TreeRecord[], id: string): string[] {
+  const result = [id];
+
+  for (let i = 0; i < result.length; i++) {
+    records
+      .filter((record) => record.parent_id === result[i] && !result.includes(record.id))
+      .forEach((record) => result.push(record.id));
+  }
+
+  return result;
+}
+
+// Names from the top of the tree down to the record, e.g. "Zone A / Aisle 3 / Bin 12"
+export function getPath(records: TreeRecord[], id: string, separator = " / "): string {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  const names: string[] = [];
+  let current = byId.get(id);
+
+  while (current && names.length <= records.length) {
+    names.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return names.join(separator);
+}
@@ -0,0 +1,9 @@
+// Mirrors check_stock_status_transition: done and canceled are final, and a
+// receipt or delivery needs lines before it can move forward
+export function isFinal(status: string): boolean {
+  return status === "done" || status === "canceled";
+}
+
+export function canAdvance(status: string, lineCount: number): boolean {
+  return !isFinal(status) && lineCount > 0;
+}
@@ -0,0 +1,552 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import LocationSelect from "@/components/LocationSelect";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Plus, SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatExpiry, sortFefo } from "@/lib/lots";
+import { parseSerials } from "@/lib/serials";
+import { cn } from "@/lib/utils";
+
+type AdjustmentReason = (typeof Constants.public.Enums.adjustment_reason)[number];
+
+interface Adjustment {
+  id: string;
+  reference: string;
+  quantity: number;
+  reason: AdjustmentReason;
+  notes: string | null;
+  created_at: string;
+  serial_numbers: string[];
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+  warehouses: { name: string } | null;
+  lots: { lot_number: string } | null;
+  locations: { code: string } | null;
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
+}
+
+interface LotOption {
+  lot_id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+}
+
+const reasonLabels: Record<AdjustmentReason, string> = {
+  damage: "Damage",
+  theft: "Theft",
+  found: "Found",
+  correction: "Correction",
+};
+
+const emptyForm = {
+  warehouse_id: "",
+  product_id: "",
+  lot_id: "",
+  location_id: null as string | null,
+  reason: "" as AdjustmentReason | "",
+  direction: "remove" as "add" | "remove",
+  quantity: "",
+  serial_numbers: "",
+  notes: "",
+};
+
+const Adjustments = () => {
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [onHand, setOnHand] = useState<number | null>(null);
+  const [reserved, setReserved] = useState(0);
+  const [lots, setLots] = useState<LotOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchAdjustments();
+    fetchWarehouses();
+    fetchProducts();
+  }, []);
+
+  useEffect(() => {
+    if (!formData.warehouse_id || !formData.product_id) {
+      setOnHand(null);
+      return;
+    }
+
+    supabase
+      .from("stock_balances")
+      .select("quantity")
+      .eq("warehouse_id", formData.warehouse_id)
+      .eq("product_id", formData.product_id)
+      .then(({ data }) =>
+        setOnHand((data || []).reduce((sum, row) => sum + Number(row.quantity ?? 0), 0))
+      );
+
+    // Removals cannot take what ready deliveries have reserved
+    supabase
+      .from("stock_availability")
+      .select("reserved")
+      .eq("warehouse_id", formData.warehouse_id)
+      .eq("product_id", formData.product_id)
+      .maybeSingle()
+      .then(({ data }) => setReserved(Number(data?.reserved ?? 0)));
+  }, [formData.warehouse_id, formData.product_id]);
+
+  const selectedProduct = products.find((product) => product.id === formData.product_id);
+
+  // Every lot of the product can be adjusted, with what each holds in the warehouse
+  useEffect(() => {
+    if (!formData.warehouse_id || !selectedProduct?.is_lot_tracked) {
+      setLots([]);
+      return;
+    }
+
+    Promise.all([
+      supabase
+        .from("lots")
+        .select("id, lot_number, expiry_date")
+        .eq("product_id", selectedProduct.id),
+      supabase
+        .from("lot_balances")
+        .select("lot_id, quantity")
+        .eq("product_id", selectedProduct.id)
+        .eq("warehouse_id", formData.warehouse_id),
+    ]).then(([lotsResult, balancesResult]) => {
+      const balances = new Map(
+        (balancesResult.data || []).map((balance) => [balance.lot_id, Number(balance.quantity ?? 0)])
+      );
+      setLots(
+        sortFefo(
+          (lotsResult.data || []).map((lot) => ({
+            lot_id: lot.id,
+            lot_number: lot.lot_number,
+            expiry_date: lot.expiry_date,
+            quantity: balances.get(lot.id) ?? 0,
+          }))
+        )
+      );
+    });
+  }, [formData.warehouse_id, selectedProduct?.id, selectedProduct?.is_lot_tracked]);
+
+  const fetchAdjustments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("adjustments")
+        .select("*, products(name, sku, unit_of_measure), warehouses(name), lots(lot_number), locations(code)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setAdjustments(data || []);
+    } catch (error) {
+      console.error("Error fetching adjustments:", error);
+      toast.error("Failed to load adjustments");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("*")
+        .eq("is_active", true);
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, is_lot_tracked, is_serial_tracked")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  // Damage and theft always remove stock, found always adds it
+  const direction =
+    formData.reason === "found"
+      ? "add"
+      : formData.reason === "correction"
+        ? formData.direction
+        : "remove";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(formData.quantity);
+
+    if (!formData.warehouse_id || !formData.product_id || !formData.reason) {
+      toast.error("Select a warehouse, product and reason");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Quantity must be greater than zero");
+      return;
+    }
+    if (selectedProduct?.is_lot_tracked && !formData.lot_id) {
+      toast.error(`${selectedProduct.name} is lot-tracked; choose the lot being adjusted`);
+      return;
+    }
+
+    // Serial-tracked adjustments name exactly which units are added or removed
+    const serialNumbers = selectedProduct?.is_serial_tracked
+      ? parseSerials(formData.serial_numbers)
+      : [];
+    if (selectedProduct?.is_serial_tracked && serialNumbers.length !== quantity) {
+      toast.error(`Enter ${quantity} distinct serials, one for each unit`);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("create_adjustment", {
+        _warehouse_id: formData.warehouse_id,
+        _product_id: formData.product_id,
+        _quantity: direction === "add" ? quantity : -quantity,
+        _reason: formData.reason,
+        _notes: formData.notes,
+        _lot_id: selectedProduct?.is_lot_tracked ? formData.lot_id : undefined,
+        _serial_numbers: selectedProduct?.is_serial_tracked ? serialNumbers : undefined,
+        _location_id: formData.location_id ?? undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success("Adjustment posted");
+      setDialogOpen(false);
+      setFormData(emptyForm);
+      fetchAdjustments();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to post adjustment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Adjustments</h1>
+            <p className="text-muted-foreground">
+              Correct stock discrepancies with a recorded reason
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Adjustment
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create New Adjustment</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="warehouse">Warehouse *</Label>
+                    <Select
+                      value={formData.warehouse_id}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, warehouse_id: value, location_id: null })
+                      }
+                    >
+                      <SelectTrigger id="warehouse">
+                        <SelectValue placeholder="Select warehouse" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {warehouses.map((wh) => (
+                          <SelectItem key={wh.id} value={wh.id}>
+                            {wh.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="product">Product *</Label>
+                    <Select
+                      value={formData.product_id}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, product_id: value, lot_id: "" })
+                      }
+                    >
+                      <SelectTrigger id="product">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name} ({product.sku})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="location">Bin</Label>
+                  <LocationSelect
+                    id="location"
+                    warehouseId={formData.warehouse_id || undefined}
+                    value={formData.location_id}
+                    onChange={(value) => setFormData({ ...formData, location_id: value })}
+                  />
+                </div>
+
+                {onHand !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Currently on hand: <span className="font-medium">{onHand}</span>
+                    {reserved > 0 && (
+                      <>
+                        {" "}
+                        · Reserved by ready deliveries:{" "}
+                        <span className="font-medium">{reserved}</span>
+                      </>
+                    )}
+                  </p>
+                )}
+
+                {selectedProduct?.is_lot_tracked && (
+                  <div className="space-y-2">
+                    <Label htmlFor="lot">Lot *</Label>
+                    <Select
+                      value={formData.lot_id}
+                      onValueChange={(value) => setFormData({ ...formData, lot_id: value })}
+                    >
+                      <SelectTrigger id="lot">
+                        <SelectValue placeholder="Select lot" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {lots.map((lot) => (
+                          <SelectItem key={lot.lot_id} value={lot.lot_id}>
+                            {lot.lot_number} · {formatExpiry(lot.expiry_date)} · {lot.quantity} on
+                            hand
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {lots.length === 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        This product has not been received into any lot yet
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reason">Reason *</Label>
+                    <Select
+                      value={formData.reason}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, reason: value as AdjustmentReason })
+                      }
+                    >
+                      <SelectTrigger id="reason">
+                        <SelectValue placeholder="Select reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Constants.public.Enums.adjustment_reason.map((reason) => (
+                          <SelectItem key={reason} value={reason}>
+                            {reasonLabels[reason]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="direction">Direction</Label>
+                    <Select
+                      value={direction}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, direction: value as "add" | "remove" })
+                      }
+                      disabled={formData.reason !== "correction"}
+                    >
+                      <SelectTrigger id="direction">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="add">Add stock</SelectItem>
+                        <SelectItem value="remove">Remove stock</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">Quantity *</Label>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={formData.quantity}
+                    onChange={(e) =>
+                      setFormData({ ...formData, quantity: e.target.value })
+                    }
+                    required
+                  />
+                </div>
+
+                {selectedProduct?.is_serial_tracked && (
+                  <div className="space-y-2">
+                    <Label htmlFor="serials">Serial Numbers *</Label>
+                    <Textarea
+                      id="serials"
+                      value={formData.serial_numbers}
+                      onChange={(e) =>
+                        setFormData({ ...formData, serial_numbers: e.target.value })
+                      }
+                      placeholder="One serial per line"
+                      rows={4}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {parseSerials(formData.serial_numbers).length} of {formData.quantity || 0}{" "}
+                      serials entered
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes *</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) =>
+                      setFormData({ ...formData, notes: e.target.value })
+                    }
+                    rows={3}
+                    required
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={loading}>
+                    Post Adjustment
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Adjustments List */}
+        {adjustments.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <SlidersHorizontal className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No adjustments yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Post an adjustment when counted stock differs from the system
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {adjustments.map((adjustment) => (
+              <Card key={adjustment.id} className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-lg">{adjustment.reference}</h3>
+                      <Badge variant="outline">{reasonLabels[adjustment.reason]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {adjustment.products?.name}
+                      {adjustment.lots && ` · Lot ${adjustment.lots.lot_number}`} ·{" "}
+                      {adjustment.warehouses?.name}
+                      {adjustment.locations && ` · ${adjustment.locations.code}`}
+                    </p>
+                    {adjustment.serial_numbers.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Serials: {adjustment.serial_numbers.join(", ")}
+                      </p>
+                    )}
+                    {adjustment.notes && (
+                      <p className="text-sm">{adjustment.notes}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(adjustment.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <p
+                    className={cn(
+                      "text-2xl font-bold",
+                      adjustment.quantity > 0 ? "text-success" : "text-destructive"
+                    )}
+                  >
+                    {adjustment.quantity > 0 ? "+" : ""}
+                    {adjustment.quantity} {adjustment.products?.unit_of_measure}
+                  </p>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Adjustments;
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Hourglass } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface Backorder {
+  delivery_line_id: string;
+  delivery_id: string;
+  reference: string;
+  status: string;
+  backorder_of_reference: string;
+  customer_id: string;
+  customer_name: string;
+  warehouse_name: string;
+  product_name: string;
+  sku: string;
+  unit_of_measure: string;
+  quantity: number;
+  created_at: string;
+}
+
+interface CustomerBackorders {
+  customerId: string;
+  customerName: string;
+  lines: Backorder[];
+}
+
+// Backorder lines grouped per customer, customers in name order
+const groupByCustomer = (backorders: Backorder[]): CustomerBackorders[] => {
+  const groups = new Map<string, CustomerBackorders>();
+
+  backorders.forEach((backorder) => {
+    const group = groups.get(backorder.customer_id) ?? {
+      customerId: backorder.customer_id,
+      customerName: backorder.customer_name,
+      lines: [],
+    };
+    group.lines.push(backorder);
+    groups.set(backorder.customer_id, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.customerName.localeCompare(b.customerName)
+  );
+};
+
+const daysWaiting = (createdAt: string) =>
+  Math.floor((Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24));
+
+const Backorders = () => {
+  const navigate = useNavigate();
+  const [backorders, setBackorders] = useState<Backorder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBackorders();
+  }, []);
+
+  const fetchBackorders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("delivery_backorders")
+        .select("*")
+        .order("created_at");
+
+      if (error) throw error;
+      setBackorders(data || []);
+    } catch (error) {
+      console.error("Error fetching backorders:", error);
+      toast.error("Failed to load backorders");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const groups = groupByCustomer(backorders);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Backorders</h1>
+          <p className="text-muted-foreground">
+            What customers are still owed from partially shipped deliveries
+          </p>
+        </div>
+
+        {!loading && groups.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <Hourglass className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No open backorders</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Every shipped delivery went out complete
+              </p>
+            </div>
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.customerId}>
+              <CardHeader>
+                <CardTitle>
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onClick={() => navigate(`/customers/${group.customerId}`)}
+                  >
+                    {group.customerName}
+                  </button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Backorder</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead className="text-right">Owed</TableHead>
+                      <TableHead className="text-right">Waiting</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.lines.map((line) => (
+                      <TableRow
+                        key={line.delivery_line_id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/deliveries/${line.delivery_id}`)}
+                      >
+                        <TableCell>
+                          <p className="font-medium">{line.reference}</p>
+                          <p className="text-xs text-muted-foreground">
+                            From {line.backorder_of_reference}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={line.status} />
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{line.product_name}</p>
+                          <p className="text-xs text-muted-foreground">SKU: {line.sku}</p>
+                        </TableCell>
+                        <TableCell>{line.warehouse_name}</TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.unit_of_measure}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {daysWaiting(line.created_at)} d
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Backorders;
@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Plus, Pencil, Trash2, Star, MapPin, TruckIcon } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface Customer {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+interface Address {
+  id: string;
+  label: string;
+  address: string;
+  is_default: boolean;
+}
+
+interface Delivery {
+  id: string;
+  reference: string;
+  status: string;
+  scheduled_date: string | null;
+  delivered_date: string | null;
+  warehouses: { name: string } | null;
+  customer_addresses: { label: string } | null;
+}
+
+const emptyAddressForm = {
+  label: "Main",
+  address: "",
+};
+
+const CustomerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [addressForm, setAddressForm] = useState(emptyAddressForm);
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCustomer(data);
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      toast.error("Failed to load customer");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchAddresses = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("customer_addresses")
+        .select("id, label, address, is_default")
+        .eq("customer_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      console.error("Error fetching customer addresses:", error);
+    }
+  }, [id]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("deliveries")
+        .select(
+          "id, reference, status, scheduled_date, delivered_date, warehouses(name), customer_addresses(label)"
+        )
+        .eq("customer_id", id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setDeliveries(data || []);
+    } catch (error) {
+      console.error("Error fetching deliveries:", error);
+      toast.error("Failed to load delivery history");
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchCustomer();
+    fetchAddresses();
+    fetchDeliveries();
+  }, [fetchCustomer, fetchAddresses, fetchDeliveries]);
+
+  const openAddDialog = () => {
+    setEditingAddress(null);
+    setAddressForm(emptyAddressForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (address: Address) => {
+    setEditingAddress(address);
+    setAddressForm({ label: address.label, address: address.address });
+    setDialogOpen(true);
+  };
+
+  const handleAddressSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const values = {
+        label: addressForm.label.trim() || "Main",
+        address: addressForm.address.trim(),
+      };
+
+      const { error } = editingAddress
+        ? await supabase.from("customer_addresses").update(values).eq("id", editingAddress.id)
+        : await supabase
+            .from("customer_addresses")
+            .insert([{ ...values, customer_id: id, is_default: addresses.length === 0 }]);
+
+      if (error) throw error;
+
+      toast.success(editingAddress ? "Address updated" : "Address added");
+      setDialogOpen(false);
+      fetchAddresses();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save address");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Clear the old default first; only one default is allowed per customer
+  const handleMakeDefault = async (address: Address) => {
+    try {
+      const { error: clearError } = await supabase
+        .from("customer_addresses")
+        .update({ is_default: false })
+        .eq("customer_id", id)
+        .eq("is_default", true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from("customer_addresses")
+        .update({ is_default: true })
+        .eq("id", address.id);
+
+      if (error) throw error;
+
+      toast.success(`${address.label} is now the default address`);
+      fetchAddresses();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update address");
+    }
+  };
+
+  const handleDeleteAddress = async (address: Address) => {
+    try {
+      const { error } = await supabase.from("customer_addresses").delete().eq("id", address.id);
+
+      if (error) throw error;
+
+      toast.success("Address removed");
+      fetchAddresses();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove address");
+    }
+  };
+
+  if (!loading && !customer) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Customer not found</p>
+            <Button variant="link" onClick={() => navigate("/customers")}>
+              Back to customers
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/customers")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-4xl font-bold">{customer?.name}</h1>
+              {customer && !customer.is_active && <Badge variant="secondary">inactive</Badge>}
+            </div>
+            <p className="text-muted-foreground">
+              {[customer?.contact_name, customer?.email, customer?.phone]
+                .filter(Boolean)
+                .join(" · ") || "No contact details"}
+            </p>
+          </div>
+        </div>
+
+        {customer?.notes && (
+          <Card>
+            <CardContent className="pt-6 text-sm">{customer.notes}</CardContent>
+          </Card>
+        )}
+
+        {/* Shipping Addresses */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Shipping Addresses</CardTitle>
+            <Button size="sm" onClick={openAddDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Address
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {addresses.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No shipping addresses yet</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {addresses.map((address) => (
+                  <div key={address.id} className="rounded-lg border p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{address.label}</span>
+                        {address.is_default && <Badge variant="outline">Default</Badge>}
+                      </div>
+                      <div className="flex gap-1">
+                        {!address.is_default && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Make default"
+                            onClick={() => handleMakeDefault(address)}
+                          >
+                            <Star className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(address)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteAddress(address)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground whitespace-pre-line mt-2">
+                      {address.address}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delivery History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {deliveries.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <TruckIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No deliveries to this customer yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Ship To</TableHead>
+                    <TableHead>Scheduled</TableHead>
+                    <TableHead>Delivered</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow
+                      key={delivery.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/deliveries/${delivery.id}`)}
+                    >
+                      <TableCell className="font-medium">{delivery.reference}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={delivery.status} />
+                      </TableCell>
+                      <TableCell>{delivery.warehouses?.name ?? "-"}</TableCell>
+                      <TableCell>{delivery.customer_addresses?.label ?? "-"}</TableCell>
+                      <TableCell>
+                        {delivery.scheduled_date
+                          ? new Date(delivery.scheduled_date).toLocaleDateString()
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.delivered_date
+                          ? new Date(delivery.delivered_date).toLocaleDateString()
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAddress ? "Edit Address" : "Add Address"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleAddressSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="label">Label</Label>
+              <Input
+                id="label"
+                value={addressForm.label}
+                onChange={(e) => setAddressForm({ ...addressForm, label: e.target.value })}
+                placeholder="Main, Warehouse, Head office..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address">Address *</Label>
+              <Textarea
+                id="address"
+                value={addressForm.address}
+                onChange={(e) => setAddressForm({ ...addressForm, address: e.target.value })}
+                placeholder="Street, city, postal code, country"
+                rows={4}
+                required
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingAddress ? "Save Address" : "Add Address"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default CustomerDetail;
@@ -4,6 +4,21 @@ import Layout from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, AlertTriangle, FileText, TruckIcon } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
 
 interface DashboardStats {
   totalProducts: number;
@@ -12,8 +27,21 @@ interface DashboardStats {
   pendingDeliveries: number;
 }
 
+interface LowStockItem {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  unit_of_measure: string;
+  reorder_level: number;
+  warehouse_id: string;
+  warehouse_name: string;
+  quantity: number;
+}
+
 const Dashboard = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([]);
+  const [lowStockOpen, setLowStockOpen] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -25,11 +53,11 @@ const Dashboard = () => {
           .select("*", { count: "exact", head: true })
           .eq("is_active", true);
 
-        // Fetch low stock products (simplified - would need stock levels)
-        const { count: lowStockProducts } = await supabase
-          .from("products")
-          .select("*", { count: "exact", head: true })
-          .eq("is_active", true);
+        // Fetch products at or below their reorder level in any warehouse
+        const { data: lowStock } = await supabase
+          .from("low_stock_items")
+          .select("*")
+          .order("product_name");
 
         // Fetch pending receipts
         const { count: pendingReceipts } = await supabase
@@ -43,9 +71,10 @@ const Dashboard = () => {
           .select("*", { count: "exact", head: true })
           .in("status", ["draft", "waiting"]);
 
+        setLowStockItems(lowStock || []);
         setStats({
           totalProducts: totalProducts || 0,
-          lowStockProducts: Math.floor((lowStockProducts || 0) * 0.15), // Placeholder calculation
+          lowStockProducts: new Set((lowStock || []).map((item) => item.product_id)).size,
           pendingReceipts: pendingReceipts || 0,
           pendingDeliveries: pendingDeliveries || 0,
         });
@@ -73,6 +102,7 @@ const Dashboard = () => {
       icon: AlertTriangle,
       color: "text-warning",
       bgColor: "bg-warning/10",
+      onClick: () => setLowStockOpen(true),
     },
     {
       title: "Pending Receipts",
@@ -106,7 +136,14 @@ const Dashboard = () => {
           {kpiCards.map((kpi) => {
             const Icon = kpi.icon;
             return (
-              <Card key={kpi.title} className="overflow-hidden">
+              <Card
+                key={kpi.title}
+                className={cn(
+                  "overflow-hidden",
+                  kpi.onClick && "cursor-pointer hover:shadow-md transition-shadow"
+                )}
+                onClick={kpi.onClick}
+              >
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -143,6 +180,51 @@ const Dashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Low Stock Drill-down */}
+      <Dialog open={lowStockOpen} onOpenChange={setLowStockOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Low Stock Items</DialogTitle>
+          </DialogHeader>
+          {lowStockItems.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>All products are above their reorder level</p>
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Reorder Level</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lowStockItems.map((item) => (
+                    <TableRow key={`${item.product_id}-${item.warehouse_id}`}>
+                      <TableCell>
+                        <p className="font-medium">{item.product_name}</p>
+                        <p className="text-xs text-muted-foreground">SKU: {item.sku}</p>
+                      </TableCell>
+                      <TableCell>{item.warehouse_name}</TableCell>
+                      <TableCell className="text-right font-medium text-warning">
+                        {item.quantity} {item.unit_of_measure}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.reorder_level} {item.unit_of_measure}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 };
@@ -1,11 +1,13 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Plus, TruckIcon } from "lucide-react";
+import { Plus, TruckIcon, CornerDownRight } from "lucide-react";
 import { toast } from "sonner";
-import { Badge } from "@/components/ui/badge";
+import StatusBadge from "@/components/StatusBadge";
+import CustomerSelect from "@/components/CustomerSelect";
 import {
   Dialog,
   DialogContent,
@@ -15,6 +17,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -22,14 +25,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { groupBackorderChains } from "@/lib/backorders";
 
 interface Delivery {
   id: string;
   reference: string;
-  customer_name: string;
   status: string;
   scheduled_date: string | null;
   created_at: string;
+  backorder_of_id: string | null;
+  customers: { name: string } | null;
 }
 
 interface Warehouse {
@@ -37,16 +42,31 @@ interface Warehouse {
   name: string;
 }
 
+interface Address {
+  id: string;
+  label: string;
+  address: string;
+  is_default: boolean;
+}
+
+const NEW_ADDRESS = "new";
+
+const emptyForm = {
+  customer_id: "",
+  shipping_address_id: "",
+  new_address: "",
+  warehouse_id: "",
+  scheduled_date: "",
+};
+
 const Deliveries = () => {
+  const navigate = useNavigate();
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    customer_name: "",
-    warehouse_id: "",
-    scheduled_date: "",
-  });
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
     fetchDeliveries();
@@ -57,7 +77,7 @@ const Deliveries = () => {
     try {
       const { data, error } = await supabase
         .from("deliveries")
-        .select("*")
+        .select("*, customers(name)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -84,32 +104,89 @@ const Deliveries = () => {
     }
   };
 
+  const referenceById = new Map(deliveries.map((delivery) => [delivery.id, delivery.reference]));
+
+  // Picking a customer loads their shipping addresses and preselects the default
+  const handleCustomerChange = async (customerId: string) => {
+    setFormData({ ...formData, customer_id: customerId, shipping_address_id: "" });
+
+    const { data, error } = await supabase
+      .from("customer_addresses")
+      .select("id, label, address, is_default")
+      .eq("customer_id", customerId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching customer addresses:", error);
+      return;
+    }
+
+    const customerAddresses = data || [];
+    const defaultAddress =
+      customerAddresses.find((address) => address.is_default) ?? customerAddresses[0];
+    setAddresses(customerAddresses);
+    setFormData((current) => ({
+      ...current,
+      shipping_address_id: defaultAddress?.id ?? NEW_ADDRESS,
+    }));
+  };
+
+  // A new address typed in the form is saved to the customer first
+  const resolveShippingAddress = async () => {
+    if (formData.shipping_address_id !== NEW_ADDRESS) {
+      return formData.shipping_address_id || null;
+    }
+    if (!formData.new_address.trim()) return null;
+
+    const { data, error } = await supabase
+      .from("customer_addresses")
+      .insert([
+        {
+          customer_id: formData.customer_id,
+          address: formData.new_address.trim(),
+          is_default: addresses.length === 0,
+        },
+      ])
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!formData.customer_id) {
+      toast.error("Select a customer");
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const reference = `DEL-${Date.now()}`;
+      const shippingAddressId = await resolveShippingAddress();
 
-      const { error } = await supabase.from("deliveries").insert([
-        {
-          reference,
-          customer_name: formData.customer_name,
-          warehouse_id: formData.warehouse_id,
-          scheduled_date: formData.scheduled_date || null,
-          status: "draft",
-        },
-      ]);
+      const { data, error } = await supabase
+        .from("deliveries")
+        .insert([
+          {
+            customer_id: formData.customer_id,
+            shipping_address_id: shippingAddressId,
+            warehouse_id: formData.warehouse_id,
+            scheduled_date: formData.scheduled_date || null,
+            status: "draft",
+          },
+        ])
+        .select("reference")
+        .single();
 
       if (error) throw error;
 
-      toast.success("Delivery created successfully");
+      toast.success(`Delivery ${data.reference} created`);
       setDialogOpen(false);
-      setFormData({
-        customer_name: "",
-        warehouse_id: "",
-        scheduled_date: "",
-      });
+      setFormData(emptyForm);
+      setAddresses([]);
       fetchDeliveries();
     } catch (error: any) {
       toast.error(error.message || "Failed to create delivery");
@@ -118,17 +195,6 @@ const Deliveries = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      draft: "bg-muted text-muted-foreground",
-      waiting: "bg-warning/20 text-warning",
-      ready: "bg-accent/20 text-accent",
-      done: "bg-success/20 text-success",
-      canceled: "bg-destructive/20 text-destructive",
-    };
-    return colors[status] || colors.draft;
-  };
-
   return (
     <Layout>
       <div className="space-y-6">
@@ -153,17 +219,48 @@ const Deliveries = () => {
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="customer">Customer Name *</Label>
-                  <Input
+                  <Label htmlFor="customer">Customer *</Label>
+                  <CustomerSelect
                     id="customer"
-                    value={formData.customer_name}
-                    onChange={(e) =>
-                      setFormData({ ...formData, customer_name: e.target.value })
-                    }
-                    required
+                    value={formData.customer_id}
+                    onChange={handleCustomerChange}
                   />
                 </div>
 
+                {formData.customer_id && (
+                  <div className="space-y-2">
+                    <Label htmlFor="address">Shipping Address</Label>
+                    <Select
+                      value={formData.shipping_address_id}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, shipping_address_id: value })
+                      }
+                    >
+                      <SelectTrigger id="address">
+                        <SelectValue placeholder="Select address" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {addresses.map((address) => (
+                          <SelectItem key={address.id} value={address.id}>
+                            {address.label} · {address.address.split("\n")[0]}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={NEW_ADDRESS}>New address...</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {formData.shipping_address_id === NEW_ADDRESS && (
+                      <Textarea
+                        value={formData.new_address}
+                        onChange={(e) =>
+                          setFormData({ ...formData, new_address: e.target.value })
+                        }
+                        placeholder="Street, city, postal code, country"
+                        rows={3}
+                      />
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="warehouse">Warehouse *</Label>
                   <Select
@@ -228,26 +325,40 @@ const Deliveries = () => {
           </Card>
         ) : (
           <div className="space-y-3">
-            {deliveries.map((delivery) => (
-              <Card key={delivery.id} className="p-6 hover:shadow-md transition-shadow">
+            {groupBackorderChains(deliveries).map(({ item: delivery, depth }) => (
+              <Card
+                key={delivery.id}
+                className="p-6 hover:shadow-md transition-shadow"
+                style={{ marginLeft: depth * 32 }}
+              >
                 <div className="flex items-center justify-between">
                   <div className="space-y-1">
                     <div className="flex items-center gap-3">
+                      {depth > 0 && <CornerDownRight className="h-4 w-4 text-muted-foreground" />}
                       <h3 className="font-semibold text-lg">{delivery.reference}</h3>
-                      <Badge className={getStatusColor(delivery.status)}>
-                        {delivery.status}
-                      </Badge>
+                      <StatusBadge status={delivery.status} />
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Customer: {delivery.customer_name}
+                      Customer: {delivery.customers?.name}
                     </p>
+                    {delivery.backorder_of_id && (
+                      <p className="text-xs text-muted-foreground">
+                        Backorder of{" "}
+                        {referenceById.get(delivery.backorder_of_id) ?? "another delivery"}
+                      </p>
+                    )}
                     {delivery.scheduled_date && (
                       <p className="text-xs text-muted-foreground">
                         Scheduled: {new Date(delivery.scheduled_date).toLocaleDateString()}
                       </p>
                     )}
                   </div>
-                  <Button variant="outline">View Details</Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/deliveries/${delivery.id}`)}
+                  >
+                    View Details
+                  </Button>
                 </div>
               </Card>
             ))}
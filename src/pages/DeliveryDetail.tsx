@@ -0,0 +1,1129 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import LocationSelect from "@/components/LocationSelect";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  PackageOpen,
+  AlertTriangle,
+  CheckCircle2,
+  TruckIcon,
+  Lock,
+  Undo2,
+  Unlock,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatExpiry, getExpiryStatus, sortFefo, suggestLot } from "@/lib/lots";
+import { parseSerials } from "@/lib/serials";
+import { canAdvance, isFinal } from "@/lib/workflow";
+import { useIsManager } from "@/hooks/use-role";
+
+interface Delivery {
+  id: string;
+  reference: string;
+  customer_id: string;
+  status: string;
+  warehouse_id: string;
+  scheduled_date: string | null;
+  delivered_date: string | null;
+  notes: string | null;
+  warehouses: { name: string; code: string } | null;
+  customers: { name: string } | null;
+  customer_addresses: { label: string; address: string } | null;
+  backorder_of_id: string | null;
+  sales_orders: { id: string; reference: string } | null;
+  cancel_reason: string | null;
+  canceled_at: string | null;
+}
+
+interface LinkedDelivery {
+  id: string;
+  reference: string;
+  status: string;
+}
+
+interface DeliveryLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  delivered_quantity: number | null;
+  location_id: string | null;
+  lot_id: string | null;
+  serial_numbers: string[];
+  products: {
+    name: string;
+    sku: string;
+    unit_of_measure: string;
+    is_lot_tracked: boolean;
+    is_serial_tracked: boolean;
+  } | null;
+  locations: { code: string; name: string } | null;
+  lots: { lot_number: string; expiry_date: string | null } | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
+}
+
+interface LotBalance {
+  lot_id: string | null;
+  product_id: string | null;
+  lot_number: string | null;
+  expiry_date: string | null;
+  quantity: number | null;
+}
+
+const emptyLineForm = {
+  product_id: "",
+  quantity: "",
+  location_id: null as string | null,
+  lot_id: null as string | null,
+  serial_numbers: "",
+};
+
+const binKey = (productId: string, locationId: string) => `${productId}:${locationId}`;
+
+const DeliveryDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [delivery, setDelivery] = useState<Delivery | null>(null);
+  const [lines, setLines] = useState<DeliveryLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [onHand, setOnHand] = useState<Record<string, number>>({});
+  const [reserved, setReserved] = useState<Record<string, number>>({});
+  const [binOnHand, setBinOnHand] = useState<Record<string, number>>({});
+  const [lotBalances, setLotBalances] = useState<LotBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [reverseOpen, setReverseOpen] = useState(false);
+  const isManager = useIsManager();
+  const [cancelReason, setCancelReason] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLine, setEditingLine] = useState<DeliveryLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+  const [shipAvailableOpen, setShipAvailableOpen] = useState(false);
+  const [original, setOriginal] = useState<LinkedDelivery | null>(null);
+  const [backorders, setBackorders] = useState<LinkedDelivery[]>([]);
+
+  const fetchDelivery = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("deliveries")
+        .select(
+          "*, warehouses(name, code), customers(name), customer_addresses(label, address), sales_orders(id, reference)"
+        )
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setDelivery(data);
+    } catch (error) {
+      console.error("Error fetching delivery:", error);
+      toast.error("Failed to load delivery");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("delivery_lines")
+        .select(
+          "*, products(name, sku, unit_of_measure, is_lot_tracked, is_serial_tracked), locations(code, name), lots(lot_number, expiry_date)"
+        )
+        .eq("delivery_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setLines(data || []);
+    } catch (error) {
+      console.error("Error fetching delivery lines:", error);
+      toast.error("Failed to load delivery lines");
+    }
+  }, [id]);
+
+  const fetchOnHand = useCallback(async (warehouseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("product_id, location_id, quantity")
+        .eq("warehouse_id", warehouseId);
+
+      if (error) throw error;
+
+      // Balances come per location; the warehouse total is their sum
+      const balances: Record<string, number> = {};
+      const binBalances: Record<string, number> = {};
+      (data || []).forEach((balance) => {
+        if (!balance.product_id) return;
+        const quantity = Number(balance.quantity ?? 0);
+        balances[balance.product_id] = (balances[balance.product_id] || 0) + quantity;
+        if (balance.location_id) {
+          binBalances[binKey(balance.product_id, balance.location_id)] = quantity;
+        }
+      });
+      setOnHand(balances);
+      setBinOnHand(binBalances);
+    } catch (error) {
+      console.error("Error fetching stock balances:", error);
+    }
+  }, []);
+
+  const fetchReserved = useCallback(async (warehouseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_availability")
+        .select("product_id, reserved")
+        .eq("warehouse_id", warehouseId)
+        .gt("reserved", 0);
+
+      if (error) throw error;
+
+      const reservations: Record<string, number> = {};
+      (data || []).forEach((row) => {
+        if (row.product_id) reservations[row.product_id] = Number(row.reserved ?? 0);
+      });
+      setReserved(reservations);
+    } catch (error) {
+      console.error("Error fetching reservations:", error);
+    }
+  }, []);
+
+  const fetchLotBalances = useCallback(async (warehouseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("lot_balances")
+        .select("lot_id, product_id, lot_number, expiry_date, quantity")
+        .eq("warehouse_id", warehouseId)
+        .gt("quantity", 0);
+
+      if (error) throw error;
+      setLotBalances(data || []);
+    } catch (error) {
+      console.error("Error fetching lot balances:", error);
+    }
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, is_lot_tracked, is_serial_tracked")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  const fetchBackorders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("deliveries")
+        .select("id, reference, status")
+        .eq("backorder_of_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setBackorders(data || []);
+    } catch (error) {
+      console.error("Error fetching backorders:", error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchDelivery();
+    fetchLines();
+    fetchBackorders();
+    fetchProducts();
+  }, [fetchDelivery, fetchLines, fetchBackorders]);
+
+  useEffect(() => {
+    if (!delivery?.backorder_of_id) {
+      setOriginal(null);
+      return;
+    }
+
+    supabase
+      .from("deliveries")
+      .select("id, reference, status")
+      .eq("id", delivery.backorder_of_id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching original delivery:", error);
+          return;
+        }
+        setOriginal(data);
+      });
+  }, [delivery?.backorder_of_id]);
+
+  useEffect(() => {
+    if (delivery?.warehouse_id) {
+      fetchOnHand(delivery.warehouse_id);
+      fetchReserved(delivery.warehouse_id);
+      fetchLotBalances(delivery.warehouse_id);
+    }
+  }, [delivery?.warehouse_id, fetchOnHand, fetchReserved, fetchLotBalances]);
+
+  const isEditable = !!delivery && !isFinal(delivery.status);
+  const canProceed = !!delivery && canAdvance(delivery.status, lines.length);
+
+  // A product can appear on several lines, so compare the total requested
+  const requestedByProduct = lines.reduce<Record<string, number>>((totals, line) => {
+    totals[line.product_id] = (totals[line.product_id] || 0) + Number(line.quantity);
+    return totals;
+  }, {});
+
+  // Lines picking from a specific bin must also fit within that bin
+  const requestedByBin = lines.reduce<Record<string, number>>((totals, line) => {
+    if (line.location_id) {
+      const key = binKey(line.product_id, line.location_id);
+      totals[key] = (totals[key] || 0) + Number(line.quantity);
+    }
+    return totals;
+  }, {});
+
+  // ...and lines picking a lot must fit within that lot
+  const requestedByLot = lines.reduce<Record<string, number>>((totals, line) => {
+    if (line.lot_id) {
+      totals[line.lot_id] = (totals[line.lot_id] || 0) + Number(line.quantity);
+    }
+    return totals;
+  }, {});
+
+  const lotsFor = (productId: string) =>
+    sortFefo(lotBalances.filter((lot) => lot.product_id === productId));
+
+  const lotOnHand = (lotId: string) =>
+    lotBalances.find((lot) => lot.lot_id === lotId)?.quantity ?? 0;
+
+  // Stock other ready deliveries have reserved is not available to this one;
+  // while this delivery is ready its own lines make up part of the reservation
+  const promisableFor = (productId: string) => {
+    const ownReservation =
+      delivery?.status === "ready" ? requestedByProduct[productId] || 0 : 0;
+    return (onHand[productId] || 0) - ((reserved[productId] || 0) - ownReservation);
+  };
+
+  const availableFor = (productId: string, locationId: string | null) =>
+    locationId
+      ? Math.min(binOnHand[binKey(productId, locationId)] || 0, promisableFor(productId))
+      : promisableFor(productId);
+
+  const isShort = (line: DeliveryLine) => {
+    if ((requestedByProduct[line.product_id] || 0) > promisableFor(line.product_id)) {
+      return true;
+    }
+    if (line.lot_id && (requestedByLot[line.lot_id] || 0) > lotOnHand(line.lot_id)) {
+      return true;
+    }
+    if (!line.location_id) return false;
+    const key = binKey(line.product_id, line.location_id);
+    return (requestedByBin[key] || 0) > (binOnHand[key] || 0);
+  };
+
+  // Warns when a pick breaks first-expired-first-out order
+  const pickWarning = (
+    productId: string,
+    lot: { lot_id: string | null; lot_number: string | null; expiry_date: string | null }
+  ) => {
+    if (getExpiryStatus(lot.expiry_date) === "expired") {
+      return `Lot ${lot.lot_number} expired on ${formatExpiry(lot.expiry_date)}`;
+    }
+
+    const suggested = suggestLot(lotsFor(productId));
+    if (
+      suggested &&
+      suggested.lot_id !== lot.lot_id &&
+      suggested.expiry_date &&
+      (!lot.expiry_date || suggested.expiry_date < lot.expiry_date)
+    ) {
+      return `Lot ${suggested.lot_number} expires earlier (${formatExpiry(
+        suggested.expiry_date
+      )}) and is still available`;
+    }
+
+    return null;
+  };
+
+  const shortLines = isEditable ? lines.filter(isShort) : [];
+
+  const selectedProduct = products.find((product) => product.id === lineForm.product_id);
+  const selectedLots = selectedProduct?.is_lot_tracked ? lotsFor(selectedProduct.id) : [];
+  const suggestedLot = suggestLot(selectedLots);
+  const selectedLot = selectedLots.find((lot) => lot.lot_id === lineForm.lot_id);
+  const selectedLotWarning =
+    selectedProduct && selectedLot ? pickWarning(selectedProduct.id, selectedLot) : null;
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    setLineForm({
+      ...lineForm,
+      product_id: productId,
+      lot_id: product?.is_lot_tracked ? suggestLot(lotsFor(productId))?.lot_id ?? null : null,
+    });
+  };
+
+  const openAddDialog = () => {
+    setEditingLine(null);
+    setLineForm(emptyLineForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (line: DeliveryLine) => {
+    setEditingLine(line);
+    setLineForm({
+      product_id: line.product_id,
+      quantity: String(line.quantity),
+      location_id: line.location_id,
+      lot_id: line.lot_id,
+      serial_numbers: line.serial_numbers.join("\n"),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(lineForm.quantity);
+
+    if (!lineForm.product_id) {
+      toast.error("Select a product");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Quantity must be greater than zero");
+      return;
+    }
+    if (selectedProduct?.is_lot_tracked && !lineForm.lot_id) {
+      toast.error(`${selectedProduct.name} is lot-tracked; choose a lot to pick`);
+      return;
+    }
+
+    // Serial-tracked lines name exactly which units leave
+    const serialNumbers = selectedProduct?.is_serial_tracked
+      ? parseSerials(lineForm.serial_numbers)
+      : [];
+    if (selectedProduct?.is_serial_tracked && serialNumbers.length !== quantity) {
+      toast.error(`Enter ${quantity} distinct serials, one for each unit`);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const values = {
+        product_id: lineForm.product_id,
+        quantity,
+        location_id: lineForm.location_id,
+        lot_id: selectedProduct?.is_lot_tracked ? lineForm.lot_id : null,
+        serial_numbers: serialNumbers,
+      };
+
+      const { error } = editingLine
+        ? await supabase.from("delivery_lines").update(values).eq("id", editingLine.id)
+        : await supabase.from("delivery_lines").insert([{ ...values, delivery_id: id }]);
+
+      if (error) throw error;
+
+      toast.success(editingLine ? "Line updated" : "Line added");
+      setDialogOpen(false);
+      fetchLines();
+      if (delivery) fetchReserved(delivery.warehouse_id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save line");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: DeliveryLine) => {
+    try {
+      const { error } = await supabase.from("delivery_lines").delete().eq("id", line.id);
+
+      if (error) throw error;
+
+      toast.success("Line removed");
+      fetchLines();
+      if (delivery) fetchReserved(delivery.warehouse_id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove line");
+    }
+  };
+
+  // A ready delivery holds its quantities so no other delivery can promise them
+  const handleStatusChange = async (status: "draft" | "ready" | "canceled", message: string) => {
+    setChangingStatus(true);
+
+    try {
+      const { error } = await supabase.from("deliveries").update({ status }).eq("id", id);
+
+      if (error) throw error;
+
+      toast.success(message);
+      setCancelOpen(false);
+      fetchDelivery();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update delivery");
+    } finally {
+      setChangingStatus(false);
+      if (delivery) fetchReserved(delivery.warehouse_id);
+    }
+  };
+
+  // A done delivery is canceled by putting its stock back; the ledger keeps both sides
+  const handleReverse = async () => {
+    if (!cancelReason.trim()) {
+      toast.error("Enter a reason for cancelling");
+      return;
+    }
+
+    setChangingStatus(true);
+
+    try {
+      const { error } = await supabase.rpc("reverse_delivery", {
+        _delivery_id: id,
+        _reason: cancelReason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast.success("Delivery canceled and its stock returned");
+      setReverseOpen(false);
+      setCancelReason("");
+      fetchDelivery();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to cancel delivery");
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  // Shipping what is available moves the shortfall onto a backorder delivery
+  const handleValidate = async (shipAvailable: boolean) => {
+    setValidating(true);
+
+    try {
+      const { data: backorderId, error } = await supabase.rpc("validate_delivery", {
+        _delivery_id: id,
+        _ship_available: shipAvailable,
+      });
+
+      if (error) throw error;
+
+      if (backorderId) {
+        toast.success("Available stock shipped; backorder created for the rest", {
+          action: {
+            label: "Open backorder",
+            onClick: () => navigate(`/deliveries/${backorderId}`),
+          },
+        });
+      } else {
+        toast.success("Delivery validated and stock updated");
+      }
+      setShipAvailableOpen(false);
+      fetchDelivery();
+      fetchLines();
+      fetchBackorders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to validate delivery");
+    } finally {
+      setValidating(false);
+      if (delivery) {
+        fetchOnHand(delivery.warehouse_id);
+        fetchReserved(delivery.warehouse_id);
+        fetchLotBalances(delivery.warehouse_id);
+      }
+    }
+  };
+
+  const selectedAvailable = lineForm.product_id
+    ? availableFor(lineForm.product_id, lineForm.location_id)
+    : null;
+
+  if (!loading && !delivery) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Delivery not found</p>
+            <Button variant="link" onClick={() => navigate("/deliveries")}>
+              Back to deliveries
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/deliveries")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-4xl font-bold">{delivery?.reference}</h1>
+                {delivery && <StatusBadge status={delivery.status} />}
+              </div>
+              <p className="text-muted-foreground">
+                Customer:{" "}
+                <button
+                  type="button"
+                  className="hover:underline"
+                  onClick={() => navigate(`/customers/${delivery?.customer_id}`)}
+                >
+                  {delivery?.customers?.name}
+                </button>
+              </p>
+              {delivery?.canceled_at && (
+                <p className="text-sm text-muted-foreground">
+                  Canceled {new Date(delivery.canceled_at).toLocaleString()}
+                  {delivery.cancel_reason && `: ${delivery.cancel_reason}`}
+                </p>
+              )}
+              {original && (
+                <p className="text-sm text-muted-foreground">
+                  Backorder of{" "}
+                  <button
+                    type="button"
+                    className="font-medium text-foreground hover:underline"
+                    onClick={() => navigate(`/deliveries/${original.id}`)}
+                  >
+                    {original.reference}
+                  </button>
+                </p>
+              )}
+              {backorders.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Backorders:{" "}
+                  {backorders.map((backorder, index) => (
+                    <span key={backorder.id}>
+                      {index > 0 && ", "}
+                      <button
+                        type="button"
+                        className="font-medium text-foreground hover:underline"
+                        onClick={() => navigate(`/deliveries/${backorder.id}`)}
+                      >
+                        {backorder.reference}
+                      </button>{" "}
+                      ({backorder.status})
+                    </span>
+                  ))}
+                </p>
+              )}
+              {delivery?.sales_orders && (
+                <p className="text-sm text-muted-foreground">
+                  Sales order:{" "}
+                  <button
+                    type="button"
+                    className="font-medium text-foreground hover:underline"
+                    onClick={() => navigate(`/sales-orders/${delivery.sales_orders?.id}`)}
+                  >
+                    {delivery.sales_orders.reference}
+                  </button>
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {isEditable && (
+              <Button
+                variant="outline"
+                onClick={() => setCancelOpen(true)}
+                disabled={changingStatus}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            {delivery?.status === "done" && isManager && (
+              <Button
+                variant="outline"
+                onClick={() => setReverseOpen(true)}
+                disabled={changingStatus}
+              >
+                <Undo2 className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            {canProceed && delivery?.status !== "ready" && shortLines.length === 0 && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("ready", "Stock reserved")}
+                disabled={changingStatus}
+              >
+                <Lock className="mr-2 h-4 w-4" />
+                Reserve
+              </Button>
+            )}
+            {isEditable && delivery?.status === "ready" && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("draft", "Reservation released")}
+                disabled={changingStatus}
+              >
+                <Unlock className="mr-2 h-4 w-4" />
+                Release
+              </Button>
+            )}
+            {canProceed && shortLines.length === 0 && (
+              <Button onClick={() => handleValidate(false)} disabled={validating}>
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                Validate
+              </Button>
+            )}
+            {canProceed && shortLines.length > 0 && (
+              <Button onClick={() => setShipAvailableOpen(true)} disabled={validating}>
+                <TruckIcon className="mr-2 h-4 w-4" />
+                Ship Available
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Delivery Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Warehouse</p>
+              <p className="font-medium">{delivery?.warehouses?.name ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Ship To</p>
+              <p className="font-medium whitespace-pre-line">
+                {delivery?.customer_addresses?.address ?? "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Scheduled</p>
+              <p className="font-medium">
+                {delivery?.scheduled_date
+                  ? new Date(delivery.scheduled_date).toLocaleDateString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Delivered</p>
+              <p className="font-medium">
+                {delivery?.delivered_date
+                  ? new Date(delivery.delivered_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {shortLines.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Insufficient stock</AlertTitle>
+            <AlertDescription>
+              {shortLines.length === 1 ? "1 line asks" : `${shortLines.length} lines ask`}{" "}
+              for more than is available in {delivery?.warehouses?.name} or in the chosen
+              bin or lot, once other deliveries' reservations are kept. Ship what is available and put the rest on a backorder, or adjust
+              the quantities.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Delivery Lines */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Products</CardTitle>
+            {isEditable && (
+              <Button size="sm" onClick={openAddDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No products on this delivery yet</p>
+                <p className="text-sm mt-1">Add the products to ship</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Bin</TableHead>
+                    <TableHead className="text-right">Requested</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead className="text-right">Delivered</TableHead>
+                    {isEditable && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const short = isEditable && isShort(line);
+                    const warning =
+                      isEditable && line.lot_id && line.lots
+                        ? pickWarning(line.product_id, { lot_id: line.lot_id, ...line.lots })
+                        : null;
+
+                    return (
+                      <TableRow key={line.id} className={cn(short && "bg-destructive/5")}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {short && (
+                              <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+                            )}
+                            <div>
+                              <p className="font-medium">{line.products?.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                SKU: {line.products?.sku}
+                              </p>
+                              {line.serial_numbers.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  Serials: {line.serial_numbers.join(", ")}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {line.lots ? (
+                            <>
+                              <p className="font-medium">{line.lots.lot_number}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatExpiry(line.lots.expiry_date)}
+                              </p>
+                              {warning && <p className="text-xs text-warning">{warning}</p>}
+                            </>
+                          ) : line.products?.is_lot_tracked && isEditable ? (
+                            <span className="text-xs text-destructive">Choose a lot</span>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>{line.locations?.code ?? "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell
+                          className={cn("text-right", short && "text-destructive font-medium")}
+                        >
+                          {availableFor(line.product_id, line.location_id)}{" "}
+                          {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.delivered_quantity ?? 0} {line.products?.unit_of_measure}
+                        </TableCell>
+                        {isEditable && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(line)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteLine(line)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine ? "Edit Line" : "Add Line"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product">Product *</Label>
+              <Select value={lineForm.product_id} onValueChange={handleProductChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedAvailable !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Available in {lineForm.location_id ? "this bin" : delivery?.warehouses?.name}:{" "}
+                  {selectedAvailable}
+                </p>
+              )}
+            </div>
+
+            {selectedProduct?.is_lot_tracked && (
+              <div className="space-y-2">
+                <Label htmlFor="lot">Lot *</Label>
+                <Select
+                  value={lineForm.lot_id ?? ""}
+                  onValueChange={(value) => setLineForm({ ...lineForm, lot_id: value })}
+                >
+                  <SelectTrigger id="lot">
+                    <SelectValue placeholder="Select lot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectedLots.map((lot) => (
+                      <SelectItem key={lot.lot_id} value={lot.lot_id}>
+                        {lot.lot_number} · {formatExpiry(lot.expiry_date)} · {lot.quantity} on hand
+                        {lot.lot_id === suggestedLot?.lot_id && " (suggested)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedLots.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No lots of this product in {delivery?.warehouses?.name}
+                  </p>
+                ) : selectedLotWarning ? (
+                  <p className="flex items-center gap-1 text-xs text-warning">
+                    <AlertTriangle className="h-3 w-3" />
+                    {selectedLotWarning}
+                  </p>
+                ) : (
+                  suggestedLot && (
+                    <p className="text-xs text-muted-foreground">
+                      Pull lot {suggestedLot.lot_number} first (earliest expiry)
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="location">Source Bin</Label>
+              <LocationSelect
+                id="location"
+                warehouseId={delivery?.warehouse_id}
+                value={lineForm.location_id}
+                onChange={(value) => setLineForm({ ...lineForm, location_id: value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity *</Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={lineForm.quantity}
+                onChange={(e) =>
+                  setLineForm({ ...lineForm, quantity: e.target.value })
+                }
+                required
+              />
+            </div>
+
+            {selectedProduct?.is_serial_tracked && (
+              <div className="space-y-2">
+                <Label htmlFor="serials">Serial Numbers *</Label>
+                <Textarea
+                  id="serials"
+                  value={lineForm.serial_numbers}
+                  onChange={(e) =>
+                    setLineForm({ ...lineForm, serial_numbers: e.target.value })
+                  }
+                  placeholder="One serial per line"
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {parseSerials(lineForm.serial_numbers).length} of {lineForm.quantity || 0}{" "}
+                  serials entered
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingLine ? "Save Line" : "Add Line"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={shipAvailableOpen} onOpenChange={setShipAvailableOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship available stock?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Each line ships what is available in its bin and lot, leaving stock other
+              deliveries have reserved. Whatever is left goes onto a
+              backorder delivery for {delivery?.customers?.name}, waiting for stock.
+            </p>
+            <ul className="text-sm space-y-1">
+              {shortLines.map((line) => (
+                <li key={line.id} className="flex justify-between">
+                  <span>{line.products?.name}</span>
+                  <span className="text-muted-foreground">
+                    {line.quantity} requested, {availableFor(line.product_id, line.location_id)}{" "}
+                    available
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShipAvailableOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => handleValidate(true)} disabled={validating}>
+                Ship and Backorder Rest
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {delivery?.reference}?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A canceled delivery cannot be reopened or shipped
+              {delivery?.status === "ready" && ", and its reserved stock is released"}.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCancelOpen(false)}>
+                Keep Delivery
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleStatusChange("canceled", "Delivery canceled")}
+                disabled={changingStatus}
+              >
+                Cancel Delivery
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={reverseOpen}
+        onOpenChange={(open) => {
+          setReverseOpen(open);
+          if (!open) setCancelReason("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {delivery?.reference}?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This delivery has shipped. Cancelling it posts reversing movements that return
+              its stock to the bins, lots and serials it left from; the original movements
+              stay in the ledger. Only managers can cancel a done delivery.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-cancel-reason">Reason *</Label>
+              <Textarea
+                id="delivery-cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Why is this delivery being canceled?"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReverseOpen(false)}>
+                Keep Delivery
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleReverse}
+                disabled={changingStatus || !cancelReason.trim()}
+              >
+                Cancel Delivery
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default DeliveryDetail;
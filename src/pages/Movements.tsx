@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+type MovementType = (typeof Constants.public.Enums.movement_type)[number];
+
+interface Movement {
+  id: string;
+  movement_type: MovementType;
+  reference_id: string | null;
+  reverses_movement_id: string | null;
+  quantity: number;
+  balance_after: number;
+  notes: string | null;
+  created_at: string;
+  product_name: string;
+  sku: string;
+  unit_of_measure: string;
+  warehouse_name: string;
+  location_code: string | null;
+  lot_number: string | null;
+  serial_number: string | null;
+  document_reference: string | null;
+  created_by_name: string | null;
+  created_by_email: string | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const ALL = "all";
+const PAGE_SIZE = 200;
+
+const emptyFilters = {
+  product_id: ALL,
+  warehouse_id: ALL,
+  movement_type: ALL,
+  created_by: ALL,
+  date_from: "",
+  date_to: "",
+};
+
+const documentPaths: Record<MovementType, string> = {
+  receipt: "/receipts",
+  delivery: "/deliveries",
+  transfer: "/transfers",
+  adjustment: "/adjustments",
+};
+
+// Adjustments have no detail page, so they link to the adjustments list
+const documentLink = (movement: Movement) =>
+  movement.movement_type === "adjustment"
+    ? documentPaths.adjustment
+    : `${documentPaths[movement.movement_type]}/${movement.reference_id}`;
+
+const Movements = () => {
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [products, setProducts] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(emptyFilters);
+
+  const fetchMovements = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      let query = supabase
+        .from("stock_ledger")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (filters.product_id !== ALL) query = query.eq("product_id", filters.product_id);
+      if (filters.warehouse_id !== ALL) query = query.eq("warehouse_id", filters.warehouse_id);
+      if (filters.movement_type !== ALL) {
+        query = query.eq("movement_type", filters.movement_type as MovementType);
+      }
+      if (filters.created_by !== ALL) query = query.eq("created_by", filters.created_by);
+      // Date inputs give yyyy-mm-dd, which Date reads as UTC; pin them to local midnight
+      if (filters.date_from) {
+        query = query.gte("created_at", new Date(`${filters.date_from}T00:00:00`).toISOString());
+      }
+      if (filters.date_to) {
+        // Include the whole of the end day
+        const end = new Date(`${filters.date_to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setMovements(data || []);
+    } catch (error) {
+      console.error("Error fetching movements:", error);
+      toast.error("Failed to load stock movements");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  const fetchOptions = async () => {
+    try {
+      const [productsResult, warehousesResult, usersResult] = await Promise.all([
+        supabase.from("products").select("id, name").order("name"),
+        supabase.from("warehouses").select("id, name").order("name"),
+        supabase.from("profiles").select("id, full_name, email").order("full_name"),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (warehousesResult.error) throw warehousesResult.error;
+      if (usersResult.error) throw usersResult.error;
+
+      setProducts(productsResult.data || []);
+      setWarehouses(warehousesResult.data || []);
+      setUsers(
+        (usersResult.data || []).map((profile) => ({
+          id: profile.id,
+          name: profile.full_name || profile.email,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching filter options:", error);
+    }
+  };
+
+  const renderSelect = (
+    id: string,
+    label: string,
+    value: string,
+    options: Option[],
+    onChange: (value: string) => void
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Stock Movements</h1>
+          <p className="text-muted-foreground">
+            Every change to stock, with the balance it left behind
+          </p>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+              {renderSelect("product", "Product", filters.product_id, products, (value) =>
+                setFilters({ ...filters, product_id: value })
+              )}
+              {renderSelect("warehouse", "Warehouse", filters.warehouse_id, warehouses, (value) =>
+                setFilters({ ...filters, warehouse_id: value })
+              )}
+              {renderSelect(
+                "type",
+                "Type",
+                filters.movement_type,
+                Constants.public.Enums.movement_type.map((type) => ({ id: type, name: type })),
+                (value) => setFilters({ ...filters, movement_type: value })
+              )}
+              {renderSelect("user", "User", filters.created_by, users, (value) =>
+                setFilters({ ...filters, created_by: value })
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={filters.date_from}
+                  onChange={(e) => setFilters({ ...filters, date_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={filters.date_to}
+                  onChange={(e) => setFilters({ ...filters, date_to: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="ghost" size="sm" onClick={() => setFilters(emptyFilters)}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Ledger */}
+        {!loading && movements.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <History className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No stock movements found</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Validated receipts, deliveries, transfers and adjustments appear here
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>User</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(movement.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{movement.movement_type}</Badge>
+                        {movement.reverses_movement_id && (
+                          <Badge variant="secondary">reversal</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {movement.reference_id ? (
+                        <Link
+                          to={documentLink(movement)}
+                          className="text-primary hover:underline"
+                        >
+                          {movement.document_reference ?? "View"}
+                        </Link>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{movement.product_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        SKU: {movement.sku}
+                        {movement.lot_number && ` · Lot ${movement.lot_number}`}
+                        {movement.serial_number && ` · S/N ${movement.serial_number}`}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {movement.warehouse_name}
+                      {movement.location_code && (
+                        <span className="text-xs text-muted-foreground"> · {movement.location_code}</span>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-medium",
+                        movement.quantity > 0 ? "text-success" : "text-destructive"
+                      )}
+                    >
+                      {movement.quantity > 0 ? "+" : ""}
+                      {movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {movement.balance_after} {movement.unit_of_measure}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {movement.created_by_name || movement.created_by_email || "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+        {movements.length === PAGE_SIZE && (
+          <p className="text-sm text-center text-muted-foreground">
+            Showing the latest {PAGE_SIZE} movements. Narrow the filters to see older ones.
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Movements;
@@ -0,0 +1,496 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Boxes, Layers, Search } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatExpiry, getExpiryStatus } from "@/lib/lots";
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  unit_of_measure: string;
+  reorder_level: number | null;
+  description: string | null;
+  is_active: boolean;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
+  categories: { name: string } | null;
+}
+
+interface Balance {
+  warehouse_id: string | null;
+  location_id: string | null;
+  quantity: number | null;
+  warehouses: { name: string } | null;
+  locations: { code: string; name: string } | null;
+}
+
+interface Availability {
+  warehouse_id: string | null;
+  warehouse_name: string | null;
+  on_hand: number | null;
+  reserved: number | null;
+  incoming: number | null;
+  available_to_promise: number | null;
+}
+
+interface LotBalance {
+  lot_id: string | null;
+  lot_number: string | null;
+  expiry_date: string | null;
+  warehouse_id: string | null;
+  warehouse_name: string | null;
+  quantity: number | null;
+}
+
+interface SerialMovement {
+  id: string | null;
+  movement_type: string | null;
+  quantity: number | null;
+  created_at: string | null;
+  warehouse_id: string | null;
+  location_id: string | null;
+  warehouse_name: string | null;
+  location_code: string | null;
+  document_reference: string | null;
+}
+
+const expiryClasses = {
+  expired: "text-destructive font-medium",
+  expiring: "text-warning font-medium",
+  ok: "",
+};
+
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [balances, setBalances] = useState<Balance[]>([]);
+  const [availability, setAvailability] = useState<Availability[]>([]);
+  const [lots, setLots] = useState<LotBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [serialQuery, setSerialQuery] = useState("");
+  const [serialHistory, setSerialHistory] = useState<SerialMovement[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  const fetchProduct = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*, categories(name)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setProduct(data);
+    } catch (error) {
+      console.error("Error fetching product:", error);
+      toast.error("Failed to load product");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchBalances = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("warehouse_id, location_id, quantity, warehouses(name), locations(code, name)")
+        .eq("product_id", id)
+        .neq("quantity", 0);
+
+      if (error) throw error;
+      setBalances(data || []);
+    } catch (error) {
+      console.error("Error fetching stock balances:", error);
+    }
+  }, [id]);
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_availability")
+        .select("warehouse_id, warehouse_name, on_hand, reserved, incoming, available_to_promise")
+        .eq("product_id", id)
+        .order("warehouse_name");
+
+      if (error) throw error;
+      setAvailability(data || []);
+    } catch (error) {
+      console.error("Error fetching stock availability:", error);
+    }
+  }, [id]);
+
+  const fetchLots = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("lot_balances")
+        .select("*")
+        .eq("product_id", id)
+        .neq("quantity", 0)
+        .order("expiry_date", { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error("Error fetching lot balances:", error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProduct();
+    fetchBalances();
+    fetchAvailability();
+    fetchLots();
+  }, [fetchProduct, fetchBalances, fetchAvailability, fetchLots]);
+
+  const handleSerialSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const serialNumber = serialQuery.trim();
+    if (!serialNumber) return;
+
+    setSearching(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("stock_ledger")
+        .select(
+          "id, movement_type, quantity, created_at, warehouse_id, location_id, warehouse_name, location_code, document_reference"
+        )
+        .eq("product_id", id)
+        .eq("serial_number", serialNumber)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setSerialHistory(data || []);
+    } catch (error) {
+      console.error("Error fetching serial history:", error);
+      toast.error("Failed to look up serial");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // A serial is wherever its movements net to a unit; the movements of one
+  // posting share a timestamp, so their order cannot tell
+  const serialPlace = (movement: SerialMovement) =>
+    `${movement.warehouse_id}:${movement.location_id ?? ""}`;
+
+  const serialBalances: Record<string, number> = {};
+  (serialHistory || []).forEach((movement) => {
+    const place = serialPlace(movement);
+    serialBalances[place] = (serialBalances[place] || 0) + Number(movement.quantity ?? 0);
+  });
+
+  const serialArrival = serialHistory?.find(
+    (movement) => Number(movement.quantity) > 0 && serialBalances[serialPlace(movement)] > 0
+  );
+  const serialExit = serialHistory?.find((movement) => Number(movement.quantity) < 0);
+
+  const totalOnHand = balances.reduce((sum, balance) => sum + Number(balance.quantity ?? 0), 0);
+
+  if (!loading && !product) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Product not found</p>
+            <Button variant="link" onClick={() => navigate("/products")}>
+              Back to products
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/products")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-4xl font-bold">{product?.name}</h1>
+              {product?.is_lot_tracked && <Badge variant="outline">Lot tracked</Badge>}
+              {product?.is_serial_tracked && <Badge variant="outline">Serial tracked</Badge>}
+              {product && !product.is_active && <Badge variant="secondary">Archived</Badge>}
+            </div>
+            <p className="text-muted-foreground">SKU: {product?.sku}</p>
+          </div>
+        </div>
+
+        {/* Product Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Category</p>
+              <p className="font-medium">{product?.categories?.name ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Unit</p>
+              <p className="font-medium">{product?.unit_of_measure}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Reorder Level</p>
+              <p className="font-medium">{product?.reorder_level ?? 0}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">On Hand</p>
+              <p className="font-medium">
+                {totalOnHand} {product?.unit_of_measure}
+              </p>
+            </div>
+            {product?.description && (
+              <div className="md:col-span-4">
+                <p className="text-muted-foreground">Description</p>
+                <p>{product.description}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Availability */}
+        {availability.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Availability</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Reserved</TableHead>
+                    <TableHead className="text-right">Incoming</TableHead>
+                    <TableHead className="text-right">Available to Promise</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {availability.map((row) => (
+                    <TableRow key={row.warehouse_id}>
+                      <TableCell>{row.warehouse_name}</TableCell>
+                      <TableCell className="text-right">{row.on_hand}</TableCell>
+                      <TableCell className="text-right">{row.reserved}</TableCell>
+                      <TableCell className="text-right">{row.incoming}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          Number(row.available_to_promise ?? 0) < 0 && "text-destructive"
+                        )}
+                      >
+                        {row.available_to_promise} {product?.unit_of_measure}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Stock by Location */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Stock by Location</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {balances.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Boxes className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No stock on hand</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {balances.map((balance) => (
+                    <TableRow key={`${balance.warehouse_id}:${balance.location_id}`}>
+                      <TableCell>{balance.warehouses?.name}</TableCell>
+                      <TableCell>
+                        {balance.locations ? (
+                          <>
+                            <span className="font-medium">{balance.locations.code}</span>{" "}
+                            <span className="text-muted-foreground">{balance.locations.name}</span>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Unassigned</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {balance.quantity} {product?.unit_of_measure}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Stock by Lot */}
+        {product?.is_lot_tracked && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock by Lot</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {lots.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Layers className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No lots in stock</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lots.map((lot) => {
+                      const status = getExpiryStatus(lot.expiry_date);
+
+                      return (
+                        <TableRow key={`${lot.lot_id}:${lot.warehouse_id}`}>
+                          <TableCell className="font-medium">{lot.lot_number}</TableCell>
+                          <TableCell className={cn(expiryClasses[status])}>
+                            {formatExpiry(lot.expiry_date)}
+                            {status === "expired" && " (expired)"}
+                          </TableCell>
+                          <TableCell>{lot.warehouse_name}</TableCell>
+                          <TableCell className="text-right">
+                            {lot.quantity} {product.unit_of_measure}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Serial Lookup */}
+        {product?.is_serial_tracked && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Find Serial</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleSerialSearch} className="flex gap-2">
+                <Input
+                  value={serialQuery}
+                  onChange={(e) => setSerialQuery(e.target.value)}
+                  placeholder="Serial number"
+                  className="max-w-sm"
+                />
+                <Button type="submit" disabled={searching || !serialQuery.trim()}>
+                  <Search className="mr-2 h-4 w-4" />
+                  Search
+                </Button>
+              </form>
+
+              {serialHistory && serialHistory.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No movements found for this serial
+                </p>
+              )}
+
+              {serialArrival ? (
+                <p className="text-sm">
+                  In stock at{" "}
+                  <span className="font-medium">
+                    {serialArrival.warehouse_name}
+                    {serialArrival.location_code && ` · ${serialArrival.location_code}`}
+                  </span>{" "}
+                  since {new Date(serialArrival.created_at).toLocaleDateString()}
+                </p>
+              ) : (
+                serialExit && (
+                  <p className="text-sm">
+                    Left <span className="font-medium">{serialExit.warehouse_name}</span> on{" "}
+                    {new Date(serialExit.created_at).toLocaleDateString()} (
+                    {serialExit.movement_type} {serialExit.document_reference})
+                  </p>
+                )
+              )}
+
+              {serialHistory && serialHistory.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {serialHistory.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell>{new Date(movement.created_at).toLocaleString()}</TableCell>
+                        <TableCell className="capitalize">{movement.movement_type}</TableCell>
+                        <TableCell>{movement.document_reference ?? "-"}</TableCell>
+                        <TableCell>
+                          {movement.warehouse_name}
+                          {movement.location_code && (
+                            <span className="text-xs text-muted-foreground">
+                              {" "}
+                              · {movement.location_code}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-medium",
+                            Number(movement.quantity) > 0 ? "text-success" : "text-destructive"
+                          )}
+                        >
+                          {Number(movement.quantity) > 0 ? "+" : ""}
+                          {movement.quantity}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ProductDetail;
@@ -1,9 +1,11 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Plus, Pencil, Package } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Package, Archive, ArchiveRestore } from "lucide-react";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -14,6 +16,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -22,6 +25,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { buildTree, flattenTree, getDescendantIds } from "@/lib/tree";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 interface Product {
   id: string;
@@ -32,38 +37,55 @@ interface Product {
   reorder_level: number;
   description: string | null;
   is_active: boolean;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
 }
 
 interface Category {
   id: string;
   name: string;
+  parent_id: string | null;
 }
 
+const ALL_CATEGORIES = "all";
+
+const emptyForm = {
+  name: "",
+  sku: "",
+  category_id: "",
+  unit_of_measure: "unit",
+  reorder_level: 0,
+  description: "",
+  is_lot_tracked: false,
+  is_serial_tracked: false,
+};
+
 const Products = () => {
+  const navigate = useNavigate();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    name: "",
-    sku: "",
-    category_id: "",
-    unit_of_measure: "unit",
-    reorder_level: 0,
-    description: "",
-  });
+  const [view, setView] = useState<"active" | "archived">("active");
+  const [categoryFilter, setCategoryFilter] = useState(ALL_CATEGORIES);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingOnHand, setEditingOnHand] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
-    fetchProducts();
     fetchCategories();
   }, []);
 
-  const fetchProducts = async () => {
+  useEffect(() => {
+    fetchProducts(view);
+  }, [view]);
+
+  const fetchProducts = async (currentView: "active" | "archived") => {
     try {
       const { data, error } = await supabase
         .from("products")
         .select("*")
-        .eq("is_active", true)
+        .eq("is_active", currentView === "active")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -90,38 +112,105 @@ const Products = () => {
     }
   };
 
+  const fetchOnHand = async (productId: string) => {
+    setEditingOnHand(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("quantity")
+        .eq("product_id", productId);
+
+      if (error) throw error;
+      setEditingOnHand((data || []).reduce((sum, row) => sum + Number(row.quantity ?? 0), 0));
+    } catch (error) {
+      console.error("Error fetching stock balances:", error);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingProduct(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (product: Product) => {
+    setEditingProduct(product);
+    setFormData({
+      name: product.name,
+      sku: product.sku,
+      category_id: product.category_id || "",
+      unit_of_measure: product.unit_of_measure,
+      reorder_level: product.reorder_level ?? 0,
+      description: product.description || "",
+      is_lot_tracked: product.is_lot_tracked,
+      is_serial_tracked: product.is_serial_tracked,
+    });
+    setDialogOpen(true);
+    fetchOnHand(product.id);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      const { error } = await supabase.from("products").insert([
-        {
-          ...formData,
-          category_id: formData.category_id || null,
-        },
-      ]);
+      const values = {
+        ...formData,
+        category_id: formData.category_id || null,
+        reorder_level: formData.reorder_level || 0,
+      };
+
+      const { error } = editingProduct
+        ? await supabase.from("products").update(values).eq("id", editingProduct.id)
+        : await supabase.from("products").insert([values]);
 
       if (error) throw error;
 
-      toast.success("Product created successfully");
+      toast.success(
+        editingProduct ? "Product updated successfully" : "Product created successfully"
+      );
       setDialogOpen(false);
-      setFormData({
-        name: "",
-        sku: "",
-        category_id: "",
-        unit_of_measure: "unit",
-        reorder_level: 0,
-        description: "",
-      });
-      fetchProducts();
+      setEditingProduct(null);
+      setFormData(emptyForm);
+      fetchProducts(view);
     } catch (error: any) {
-      toast.error(error.message || "Failed to create product");
+      toast.error(
+        error.message || (editingProduct ? "Failed to update product" : "Failed to create product")
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSetActive = async (product: Product, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("products")
+        .update({ is_active: isActive })
+        .eq("id", product.id);
+
+      if (error) throw error;
+
+      toast.success(isActive ? `${product.name} restored` : `${product.name} archived`);
+      fetchProducts(view);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update product");
+    }
+  };
+
+  // Tracking only changes while the product has no stock, which the database enforces
+  const trackingLocked = !!editingProduct && editingOnHand !== 0;
+
+  const categoryOptions = flattenTree(buildTree(categories));
+
+  // Filtering on a category also shows products in its subcategories
+  const filterIds =
+    categoryFilter === ALL_CATEGORIES ? null : getDescendantIds(categories, categoryFilter);
+  const visibleProducts = filterIds
+    ? products.filter((product) => product.category_id && filterIds.includes(product.category_id))
+    : products;
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -135,14 +224,14 @@ const Products = () => {
           </div>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button onClick={openCreateDialog}>
                 <Plus className="mr-2 h-4 w-4" />
                 Add Product
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>Create New Product</DialogTitle>
+                <DialogTitle>{editingProduct ? "Edit Product" : "Create New Product"}</DialogTitle>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
@@ -183,9 +272,10 @@ const Products = () => {
                         <SelectValue placeholder="Select category" />
                       </SelectTrigger>
                       <SelectContent>
-                        {categories.map((cat) => (
-                          <SelectItem key={cat.id} value={cat.id}>
-                            {cat.name}
+                        {categoryOptions.map((node) => (
+                          <SelectItem key={node.item.id} value={node.item.id}>
+                            {"— ".repeat(node.depth)}
+                            {node.item.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -234,6 +324,47 @@ const Products = () => {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="lot-tracked">Lot tracked</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Receipts must record a lot number and expiry date
+                    </p>
+                  </div>
+                  <Switch
+                    id="lot-tracked"
+                    checked={formData.is_lot_tracked}
+                    onCheckedChange={(checked) =>
+                      setFormData({ ...formData, is_lot_tracked: checked })
+                    }
+                    disabled={trackingLocked}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="serial-tracked">Serial tracked</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Every unit received and delivered is identified by its serial number
+                    </p>
+                  </div>
+                  <Switch
+                    id="serial-tracked"
+                    checked={formData.is_serial_tracked}
+                    disabled={trackingLocked}
+                    onCheckedChange={(checked) =>
+                      setFormData({ ...formData, is_serial_tracked: checked })
+                    }
+                  />
+                </div>
+
+                {trackingLocked && editingOnHand !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    Tracking can only change while none of this product is in stock (
+                    {editingOnHand} {editingProduct?.unit_of_measure} on hand)
+                  </p>
+                )}
+
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -243,7 +374,7 @@ const Products = () => {
                     Cancel
                   </Button>
                   <Button type="submit" disabled={loading}>
-                    Create Product
+                    {editingProduct ? "Save Changes" : "Create Product"}
                   </Button>
                 </div>
               </form>
@@ -251,29 +382,84 @@ const Products = () => {
           </Dialog>
         </div>
 
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Tabs value={view} onValueChange={(value) => setView(value as "active" | "archived")}>
+            <TabsList>
+              <TabsTrigger value="active">Active</TabsTrigger>
+              <TabsTrigger value="archived">Archived</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categoryOptions.map((node) => (
+                <SelectItem key={node.item.id} value={node.item.id}>
+                  {"— ".repeat(node.depth)}
+                  {node.item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Products List */}
-        {products.length === 0 ? (
+        {visibleProducts.length === 0 ? (
           <Card className="p-12">
             <div className="text-center">
               <Package className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
-              <p className="text-muted-foreground">No products yet</p>
-              <p className="text-sm text-muted-foreground mt-1">
-                Create your first product to get started
-              </p>
+              {view === "active" ? (
+                <>
+                  <p className="text-muted-foreground">No products yet</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Create your first product to get started
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">No archived products</p>
+              )}
             </div>
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {products.map((product) => (
+            {visibleProducts.map((product) => (
               <Card key={product.id} className="p-6 hover:shadow-md transition-shadow">
                 <div className="flex items-start justify-between mb-4">
                   <div className="flex-1">
-                    <h3 className="font-semibold text-lg mb-1">{product.name}</h3>
+                    <h3
+                      className="font-semibold text-lg mb-1 cursor-pointer hover:underline"
+                      onClick={() => navigate(`/products/${product.id}`)}
+                    >
+                      {product.name}
+                    </h3>
                     <p className="text-sm text-muted-foreground">SKU: {product.sku}</p>
                   </div>
-                  <Button variant="ghost" size="icon">
-                    <Pencil className="h-4 w-4" />
-                  </Button>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(product)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {product.is_active ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Archive"
+                        onClick={() => handleSetActive(product, false)}
+                      >
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Restore"
+                        onClick={() => handleSetActive(product, true)}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
@@ -284,6 +470,14 @@ const Products = () => {
                     <span className="text-muted-foreground">Reorder Level:</span>
                     <span className="font-medium">{product.reorder_level}</span>
                   </div>
+                  {(product.is_lot_tracked || product.is_serial_tracked) && (
+                    <div className="flex gap-1">
+                      {product.is_lot_tracked && <Badge variant="outline">Lot tracked</Badge>}
+                      {product.is_serial_tracked && (
+                        <Badge variant="outline">Serial tracked</Badge>
+                      )}
+                    </div>
+                  )}
                 </div>
               </Card>
             ))}
@@ -0,0 +1,567 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Plus, Pencil, Trash2, CheckCircle2, PackageOpen } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface PurchaseOrder {
+  id: string;
+  reference: string;
+  status: string;
+  expected_date: string | null;
+  confirmed_date: string | null;
+  notes: string | null;
+  warehouses: { name: string } | null;
+  suppliers: { name: string; payment_terms: string | null } | null;
+}
+
+interface PurchaseOrderLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+}
+
+interface Receipt {
+  id: string;
+  reference: string;
+  status: string;
+  scheduled_date: string | null;
+  received_date: string | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+}
+
+const emptyLineForm = {
+  product_id: "",
+  quantity: "",
+  unit_price: "",
+};
+
+const PurchaseOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [received, setReceived] = useState<Record<string, number>>({});
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLine, setEditingLine] = useState<PurchaseOrderLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("*, warehouses(name), suppliers(name, payment_terms)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrder(data);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      toast.error("Failed to load purchase order");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("purchase_order_lines")
+        .select("*, products(name, sku, unit_of_measure)")
+        .eq("purchase_order_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setLines(data || []);
+    } catch (error) {
+      console.error("Error fetching purchase order lines:", error);
+      toast.error("Failed to load purchase order lines");
+    }
+  }, [id]);
+
+  // Quantities received against each line on validated receipts
+  const fetchProgress = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("purchase_order_line_progress")
+        .select("purchase_order_line_id, received_quantity")
+        .eq("purchase_order_id", id);
+
+      if (error) throw error;
+
+      const byLine: Record<string, number> = {};
+      (data || []).forEach((row) => {
+        byLine[row.purchase_order_line_id] = Number(row.received_quantity);
+      });
+      setReceived(byLine);
+    } catch (error) {
+      console.error("Error fetching purchase order progress:", error);
+    }
+  }, [id]);
+
+  const fetchReceipts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("receipts")
+        .select("id, reference, status, scheduled_date, received_date")
+        .eq("purchase_order_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setReceipts(data || []);
+    } catch (error) {
+      console.error("Error fetching receipts:", error);
+    }
+  }, [id]);
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrder();
+    fetchLines();
+    fetchProgress();
+    fetchReceipts();
+    fetchProducts();
+  }, [fetchOrder, fetchLines, fetchProgress, fetchReceipts]);
+
+  const isDraft = order?.status === "draft";
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+  const openAddDialog = () => {
+    setEditingLine(null);
+    setLineForm(emptyLineForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (line: PurchaseOrderLine) => {
+    setEditingLine(line);
+    setLineForm({
+      product_id: line.product_id,
+      quantity: String(line.quantity),
+      unit_price: String(line.unit_price),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(lineForm.quantity);
+    const unitPrice = parseFloat(lineForm.unit_price) || 0;
+
+    if (!lineForm.product_id) {
+      toast.error("Select a product");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Quantity must be greater than zero");
+      return;
+    }
+    if (unitPrice < 0) {
+      toast.error("Unit price cannot be negative");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const values = {
+        product_id: lineForm.product_id,
+        quantity,
+        unit_price: unitPrice,
+      };
+
+      const { error } = editingLine
+        ? await supabase.from("purchase_order_lines").update(values).eq("id", editingLine.id)
+        : await supabase
+            .from("purchase_order_lines")
+            .insert([{ ...values, purchase_order_id: id }]);
+
+      if (error) throw error;
+
+      toast.success(editingLine ? "Line updated" : "Line added");
+      setDialogOpen(false);
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save line");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: PurchaseOrderLine) => {
+    try {
+      const { error } = await supabase.from("purchase_order_lines").delete().eq("id", line.id);
+
+      if (error) throw error;
+
+      toast.success("Line removed");
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove line");
+    }
+  };
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+
+    try {
+      const { data: receiptId, error } = await supabase.rpc("confirm_purchase_order", {
+        _purchase_order_id: id,
+      });
+
+      if (error) throw error;
+
+      toast.success("Purchase order confirmed and draft receipt created", {
+        action: {
+          label: "Open receipt",
+          onClick: () => navigate(`/receipts/${receiptId}`),
+        },
+      });
+      fetchOrder();
+      fetchReceipts();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to confirm purchase order");
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (!loading && !order) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Purchase order not found</p>
+            <Button variant="link" onClick={() => navigate("/purchase-orders")}>
+              Back to purchase orders
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/purchase-orders")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-4xl font-bold">{order?.reference}</h1>
+                {order && <StatusBadge status={order.status} />}
+              </div>
+              <p className="text-muted-foreground">
+                Supplier: {order?.suppliers?.name}
+                {order?.suppliers?.payment_terms && ` · ${order.suppliers.payment_terms}`}
+              </p>
+            </div>
+          </div>
+          {isDraft && (
+            <Button onClick={handleConfirm} disabled={confirming || lines.length === 0}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Confirm
+            </Button>
+          )}
+        </div>
+
+        {/* Purchase Order Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Deliver To</p>
+              <p className="font-medium">{order?.warehouses?.name ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Expected</p>
+              <p className="font-medium">
+                {order?.expected_date
+                  ? new Date(order.expected_date).toLocaleDateString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Confirmed</p>
+              <p className="font-medium">
+                {order?.confirmed_date
+                  ? new Date(order.confirmed_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+            {order?.notes && (
+              <div className="md:col-span-3">
+                <p className="text-muted-foreground">Notes</p>
+                <p className="font-medium whitespace-pre-line">{order.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Purchase Order Lines */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Products</CardTitle>
+            {isDraft && (
+              <Button size="sm" onClick={openAddDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No products on this purchase order yet</p>
+                <p className="text-sm mt-1">Add the products and prices agreed with the supplier</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Remaining</TableHead>
+                    {isDraft && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const receivedQuantity = received[line.id] ?? 0;
+                    const remaining = Math.max(line.quantity - receivedQuantity, 0);
+
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <p className="font-medium">{line.products?.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            SKU: {line.products?.sku}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell className="text-right">{line.unit_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {(line.quantity * line.unit_price).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {receivedQuantity} {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${remaining > 0 && !isDraft ? "text-warning font-medium" : ""}`}
+                        >
+                          {remaining} {line.products?.unit_of_measure}
+                        </TableCell>
+                        {isDraft && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(line)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteLine(line)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Order Total</TableCell>
+                    <TableCell className="text-right">{total.toFixed(2)}</TableCell>
+                    <TableCell colSpan={isDraft ? 3 : 2} />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Receipts generated from this order */}
+        {receipts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Receipts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Scheduled</TableHead>
+                    <TableHead>Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map((receipt) => (
+                    <TableRow
+                      key={receipt.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/receipts/${receipt.id}`)}
+                    >
+                      <TableCell className="font-medium">{receipt.reference}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={receipt.status} />
+                      </TableCell>
+                      <TableCell>
+                        {receipt.scheduled_date
+                          ? new Date(receipt.scheduled_date).toLocaleDateString()
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {receipt.received_date
+                          ? new Date(receipt.received_date).toLocaleString()
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine ? "Edit Line" : "Add Line"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product">Product *</Label>
+              <Select
+                value={lineForm.product_id}
+                onValueChange={(value) => setLineForm({ ...lineForm, product_id: value })}
+              >
+                <SelectTrigger id="product">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Quantity *</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={lineForm.quantity}
+                  onChange={(e) => setLineForm({ ...lineForm, quantity: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="unit-price">Unit Price</Label>
+                <Input
+                  id="unit-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lineForm.unit_price}
+                  onChange={(e) => setLineForm({ ...lineForm, unit_price: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingLine ? "Save Line" : "Add Line"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default PurchaseOrderDetail;
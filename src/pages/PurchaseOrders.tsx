@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Plus, ShoppingCart } from "lucide-react";
+import { toast } from "sonner";
+import StatusBadge from "@/components/StatusBadge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { expectedArrival } from "@/lib/suppliers";
+
+interface PurchaseOrder {
+  id: string;
+  reference: string;
+  status: string;
+  expected_date: string | null;
+  suppliers: { name: string } | null;
+  warehouses: { name: string } | null;
+  purchase_order_lines: { quantity: number; unit_price: number }[];
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+  lead_time_days: number;
+}
+
+const emptyForm = {
+  supplier_id: "",
+  warehouse_id: "",
+  expected_date: "",
+  notes: "",
+};
+
+const orderTotal = (order: PurchaseOrder) =>
+  order.purchase_order_lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+const PurchaseOrders = () => {
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchOrders();
+    fetchWarehouses();
+    fetchSuppliers();
+  }, []);
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select(
+          "id, reference, status, expected_date, suppliers(name), warehouses(name), purchase_order_lines(quantity, unit_price)"
+        )
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setOrders(data || []);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      toast.error("Failed to load purchase orders");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("id, name")
+        .eq("is_active", true);
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("id, name, lead_time_days")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+    }
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    setFormData({
+      ...formData,
+      supplier_id: supplierId,
+      expected_date:
+        formData.expected_date || (supplier ? expectedArrival(supplier.lead_time_days) : ""),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.supplier_id) {
+      toast.error("Select a supplier");
+      return;
+    }
+    if (!formData.warehouse_id) {
+      toast.error("Select a warehouse");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .insert([
+          {
+            supplier_id: formData.supplier_id,
+            warehouse_id: formData.warehouse_id,
+            expected_date: formData.expected_date || null,
+            notes: formData.notes.trim() || null,
+          },
+        ])
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      toast.success("Purchase order created");
+      setDialogOpen(false);
+      setFormData(emptyForm);
+      navigate(`/purchase-orders/${data.id}`);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create purchase order");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Purchase Orders</h1>
+            <p className="text-muted-foreground">
+              Order stock from suppliers and turn confirmed orders into receipts
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Purchase Order
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Purchase Order</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplier">Supplier *</Label>
+                  <Select value={formData.supplier_id} onValueChange={handleSupplierChange}>
+                    <SelectTrigger id="supplier">
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="warehouse">Deliver To *</Label>
+                  <Select
+                    value={formData.warehouse_id}
+                    onValueChange={(value) => setFormData({ ...formData, warehouse_id: value })}
+                  >
+                    <SelectTrigger id="warehouse">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="expected">Expected Date</Label>
+                  <Input
+                    id="expected"
+                    type="date"
+                    value={formData.expected_date}
+                    onChange={(e) => setFormData({ ...formData, expected_date: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={loading}>
+                    Create Purchase Order
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Purchase Orders List */}
+        {orders.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <ShoppingCart className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No purchase orders yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Create a purchase order to agree quantities and prices with a supplier
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => (
+              <Card key={order.id} className="p-6 hover:shadow-md transition-shadow">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-lg">{order.reference}</h3>
+                      <StatusBadge status={order.status} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Supplier: {order.suppliers?.name} · {order.warehouses?.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {order.purchase_order_lines.length}{" "}
+                      {order.purchase_order_lines.length === 1 ? "line" : "lines"} · Total{" "}
+                      {orderTotal(order).toFixed(2)}
+                      {order.expected_date &&
+                        ` · Expected ${new Date(order.expected_date).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/purchase-orders/${order.id}`)}
+                  >
+                    View Details
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,900 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import LocationSelect from "@/components/LocationSelect";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  PackageOpen,
+  CheckCircle2,
+  Clock,
+  PackageCheck,
+  Undo2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatExpiry } from "@/lib/lots";
+import { parseSerials } from "@/lib/serials";
+import { canAdvance, isFinal } from "@/lib/workflow";
+import { useIsManager } from "@/hooks/use-role";
+
+interface Receipt {
+  id: string;
+  reference: string;
+  status: string;
+  scheduled_date: string | null;
+  received_date: string | null;
+  notes: string | null;
+  warehouse_id: string;
+  warehouses: { name: string; code: string } | null;
+  suppliers: { name: string; payment_terms: string | null } | null;
+  backorder_of_id: string | null;
+  purchase_orders: { id: string; reference: string } | null;
+  cancel_reason: string | null;
+  canceled_at: string | null;
+}
+
+interface LinkedReceipt {
+  id: string;
+  reference: string;
+  status: string;
+}
+
+interface ReceiptLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  received_quantity: number | null;
+  location_id: string | null;
+  lot_number: string | null;
+  expiry_date: string | null;
+  serial_numbers: string[];
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+  locations: { code: string; name: string } | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
+}
+
+const emptyLineForm = {
+  product_id: "",
+  quantity: "",
+  received_quantity: "",
+  location_id: null as string | null,
+  lot_number: "",
+  expiry_date: "",
+  serial_numbers: "",
+};
+
+const ReceiptDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [reverseOpen, setReverseOpen] = useState(false);
+  const isManager = useIsManager();
+  const [cancelReason, setCancelReason] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLine, setEditingLine] = useState<ReceiptLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+  const [backorderOpen, setBackorderOpen] = useState(false);
+  const [original, setOriginal] = useState<LinkedReceipt | null>(null);
+  const [backorders, setBackorders] = useState<LinkedReceipt[]>([]);
+
+  const fetchReceipt = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("receipts")
+        .select("*, warehouses(name, code), suppliers(name, payment_terms), purchase_orders(id, reference)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setReceipt(data);
+    } catch (error) {
+      console.error("Error fetching receipt:", error);
+      toast.error("Failed to load receipt");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("receipt_lines")
+        .select("*, products(name, sku, unit_of_measure), locations(code, name)")
+        .eq("receipt_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setLines(data || []);
+    } catch (error) {
+      console.error("Error fetching receipt lines:", error);
+      toast.error("Failed to load receipt lines");
+    }
+  }, [id]);
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, is_lot_tracked, is_serial_tracked")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  const fetchBackorders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("receipts")
+        .select("id, reference, status")
+        .eq("backorder_of_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setBackorders(data || []);
+    } catch (error) {
+      console.error("Error fetching backorders:", error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchReceipt();
+    fetchLines();
+    fetchBackorders();
+    fetchProducts();
+  }, [fetchReceipt, fetchLines, fetchBackorders]);
+
+  useEffect(() => {
+    if (!receipt?.backorder_of_id) {
+      setOriginal(null);
+      return;
+    }
+
+    supabase
+      .from("receipts")
+      .select("id, reference, status")
+      .eq("id", receipt.backorder_of_id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching original receipt:", error);
+          return;
+        }
+        setOriginal(data);
+      });
+  }, [receipt?.backorder_of_id]);
+
+  const isEditable = !!receipt && !isFinal(receipt.status);
+  const canProceed = !!receipt && canAdvance(receipt.status, lines.length);
+
+  const selectedProduct = products.find((product) => product.id === lineForm.product_id);
+
+  // Mirrors validate_receipt: with no received quantities entered the receipt is
+  // received in full, otherwise each line receives exactly what it records
+  const isPartial = lines.some((line) => (line.received_quantity ?? 0) > 0);
+  const shortfallFor = (line: ReceiptLine) =>
+    isPartial ? Math.max(line.quantity - (line.received_quantity ?? 0), 0) : 0;
+  const shortLines = lines.filter((line) => shortfallFor(line) > 0);
+
+  const openAddDialog = () => {
+    setEditingLine(null);
+    setLineForm(emptyLineForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (line: ReceiptLine) => {
+    setEditingLine(line);
+    setLineForm({
+      product_id: line.product_id,
+      quantity: String(line.quantity),
+      received_quantity: String(line.received_quantity ?? 0),
+      location_id: line.location_id,
+      lot_number: line.lot_number ?? "",
+      expiry_date: line.expiry_date ?? "",
+      serial_numbers: line.serial_numbers.join("\n"),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(lineForm.quantity);
+    const receivedQuantity = parseFloat(lineForm.received_quantity) || 0;
+
+    if (!lineForm.product_id) {
+      toast.error("Select a product");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Ordered quantity must be greater than zero");
+      return;
+    }
+    if (receivedQuantity < 0) {
+      toast.error("Received quantity cannot be negative");
+      return;
+    }
+    if (selectedProduct?.is_lot_tracked && !lineForm.lot_number.trim()) {
+      toast.error(`${selectedProduct.name} is lot-tracked; enter a lot number`);
+      return;
+    }
+
+    // One serial per unit actually received (ordered quantity until receiving starts)
+    const serialNumbers = selectedProduct?.is_serial_tracked
+      ? parseSerials(lineForm.serial_numbers)
+      : [];
+    if (selectedProduct?.is_serial_tracked) {
+      const expected = receivedQuantity || quantity;
+      if (serialNumbers.length > 0 && serialNumbers.length !== expected) {
+        toast.error(`Enter ${expected} distinct serials, one for each unit`);
+        return;
+      }
+    }
+
+    setSaving(true);
+
+    try {
+      const values = {
+        product_id: lineForm.product_id,
+        quantity,
+        received_quantity: receivedQuantity,
+        location_id: lineForm.location_id,
+        lot_number: selectedProduct?.is_lot_tracked ? lineForm.lot_number.trim() : null,
+        expiry_date: selectedProduct?.is_lot_tracked ? lineForm.expiry_date || null : null,
+        serial_numbers: serialNumbers,
+      };
+
+      const { error } = editingLine
+        ? await supabase.from("receipt_lines").update(values).eq("id", editingLine.id)
+        : await supabase.from("receipt_lines").insert([{ ...values, receipt_id: id }]);
+
+      if (error) throw error;
+
+      toast.success(editingLine ? "Line updated" : "Line added");
+      setDialogOpen(false);
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save line");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: ReceiptLine) => {
+    try {
+      const { error } = await supabase.from("receipt_lines").delete().eq("id", line.id);
+
+      if (error) throw error;
+
+      toast.success("Line removed");
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove line");
+    }
+  };
+
+  const handleStatusChange = async (status: "waiting" | "ready" | "canceled", message: string) => {
+    setChangingStatus(true);
+
+    try {
+      const { error } = await supabase.from("receipts").update({ status }).eq("id", id);
+
+      if (error) throw error;
+
+      toast.success(message);
+      setCancelOpen(false);
+      fetchReceipt();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update receipt");
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  // A done receipt is canceled by taking its stock back out; the ledger keeps both sides
+  const handleReverse = async () => {
+    if (!cancelReason.trim()) {
+      toast.error("Enter a reason for cancelling");
+      return;
+    }
+
+    setChangingStatus(true);
+
+    try {
+      const { error } = await supabase.rpc("reverse_receipt", {
+        _receipt_id: id,
+        _reason: cancelReason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast.success("Receipt canceled and its stock reversed");
+      setReverseOpen(false);
+      setCancelReason("");
+      fetchReceipt();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to cancel receipt");
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  // Under-received lines can go onto a backorder receipt for the remainder
+  const handleValidateClick = () => {
+    if (shortLines.length > 0) {
+      setBackorderOpen(true);
+    } else {
+      handleValidate(false);
+    }
+  };
+
+  const handleValidate = async (createBackorder: boolean) => {
+    setValidating(true);
+
+    try {
+      const { data: backorderId, error } = await supabase.rpc("validate_receipt", {
+        _receipt_id: id,
+        _create_backorder: createBackorder,
+      });
+
+      if (error) throw error;
+
+      if (backorderId) {
+        toast.success("Receipt validated; backorder created for the remainder", {
+          action: {
+            label: "Open backorder",
+            onClick: () => navigate(`/receipts/${backorderId}`),
+          },
+        });
+      } else {
+        toast.success("Receipt validated and stock updated");
+      }
+      setBackorderOpen(false);
+      fetchReceipt();
+      fetchLines();
+      fetchBackorders();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to validate receipt");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  if (!loading && !receipt) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Receipt not found</p>
+            <Button variant="link" onClick={() => navigate("/receipts")}>
+              Back to receipts
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/receipts")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-4xl font-bold">{receipt?.reference}</h1>
+                {receipt && <StatusBadge status={receipt.status} />}
+              </div>
+              <p className="text-muted-foreground">
+                Supplier: {receipt?.suppliers?.name}
+                {receipt?.suppliers?.payment_terms && ` · ${receipt.suppliers.payment_terms}`}
+              </p>
+              {receipt?.canceled_at && (
+                <p className="text-sm text-muted-foreground">
+                  Canceled {new Date(receipt.canceled_at).toLocaleString()}
+                  {receipt.cancel_reason && `: ${receipt.cancel_reason}`}
+                </p>
+              )}
+              {original && (
+                <p className="text-sm text-muted-foreground">
+                  Backorder of{" "}
+                  <button
+                    type="button"
+                    className="font-medium text-foreground hover:underline"
+                    onClick={() => navigate(`/receipts/${original.id}`)}
+                  >
+                    {original.reference}
+                  </button>
+                </p>
+              )}
+              {backorders.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Backorders:{" "}
+                  {backorders.map((backorder, index) => (
+                    <span key={backorder.id}>
+                      {index > 0 && ", "}
+                      <button
+                        type="button"
+                        className="font-medium text-foreground hover:underline"
+                        onClick={() => navigate(`/receipts/${backorder.id}`)}
+                      >
+                        {backorder.reference}
+                      </button>{" "}
+                      ({backorder.status})
+                    </span>
+                  ))}
+                </p>
+              )}
+              {receipt?.purchase_orders && (
+                <p className="text-sm text-muted-foreground">
+                  Purchase order:{" "}
+                  <button
+                    type="button"
+                    className="font-medium text-foreground hover:underline"
+                    onClick={() => navigate(`/purchase-orders/${receipt.purchase_orders?.id}`)}
+                  >
+                    {receipt.purchase_orders.reference}
+                  </button>
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {isEditable && (
+              <Button
+                variant="outline"
+                onClick={() => setCancelOpen(true)}
+                disabled={changingStatus}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            {receipt?.status === "done" && isManager && (
+              <Button
+                variant="outline"
+                onClick={() => setReverseOpen(true)}
+                disabled={changingStatus}
+              >
+                <Undo2 className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+            {canProceed && receipt?.status === "draft" && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("waiting", "Receipt is waiting for arrival")}
+                disabled={changingStatus}
+              >
+                <Clock className="mr-2 h-4 w-4" />
+                Mark Waiting
+              </Button>
+            )}
+            {canProceed && receipt?.status === "waiting" && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("ready", "Receipt is ready to validate")}
+                disabled={changingStatus}
+              >
+                <PackageCheck className="mr-2 h-4 w-4" />
+                Mark Arrived
+              </Button>
+            )}
+            {canProceed && (
+              <Button onClick={handleValidateClick} disabled={validating}>
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                Validate
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Receipt Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Warehouse</p>
+              <p className="font-medium">{receipt?.warehouses?.name ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Scheduled</p>
+              <p className="font-medium">
+                {receipt?.scheduled_date
+                  ? new Date(receipt.scheduled_date).toLocaleDateString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Received</p>
+              <p className="font-medium">
+                {receipt?.received_date
+                  ? new Date(receipt.received_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Receipt Lines */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Products</CardTitle>
+            {isEditable && (
+              <Button size="sm" onClick={openAddDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No products on this receipt yet</p>
+                <p className="text-sm mt-1">Add the products you expect to receive</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Bin</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    {isEditable && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <p className="font-medium">{line.products?.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          SKU: {line.products?.sku}
+                        </p>
+                        {line.serial_numbers.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Serials: {line.serial_numbers.join(", ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.lot_number ? (
+                          <>
+                            <p className="font-medium">{line.lot_number}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatExpiry(line.expiry_date)}
+                            </p>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{line.locations?.code ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {line.quantity} {line.products?.unit_of_measure}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${isEditable && shortfallFor(line) > 0 ? "text-warning font-medium" : ""}`}
+                      >
+                        {line.received_quantity ?? 0} {line.products?.unit_of_measure}
+                      </TableCell>
+                      {isEditable && (
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditDialog(line)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteLine(line)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine ? "Edit Line" : "Add Line"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product">Product *</Label>
+              <Select
+                value={lineForm.product_id}
+                onValueChange={(value) =>
+                  setLineForm({ ...lineForm, product_id: value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Ordered Quantity *</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={lineForm.quantity}
+                  onChange={(e) =>
+                    setLineForm({ ...lineForm, quantity: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="received">Received Quantity</Label>
+                <Input
+                  id="received"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={lineForm.received_quantity}
+                  onChange={(e) =>
+                    setLineForm({ ...lineForm, received_quantity: e.target.value })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave at 0 on every line to receive the ordered quantities in full
+                </p>
+              </div>
+            </div>
+
+            {selectedProduct?.is_lot_tracked && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lot-number">Lot Number *</Label>
+                  <Input
+                    id="lot-number"
+                    value={lineForm.lot_number}
+                    onChange={(e) =>
+                      setLineForm({ ...lineForm, lot_number: e.target.value })
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expiry-date">Expiry Date</Label>
+                  <Input
+                    id="expiry-date"
+                    type="date"
+                    value={lineForm.expiry_date}
+                    onChange={(e) =>
+                      setLineForm({ ...lineForm, expiry_date: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {selectedProduct?.is_serial_tracked && (
+              <div className="space-y-2">
+                <Label htmlFor="serials">Serial Numbers</Label>
+                <Textarea
+                  id="serials"
+                  value={lineForm.serial_numbers}
+                  onChange={(e) =>
+                    setLineForm({ ...lineForm, serial_numbers: e.target.value })
+                  }
+                  placeholder="One serial per line"
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {parseSerials(lineForm.serial_numbers).length} serials entered. One per unit
+                  is required before the receipt can be validated.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="location">Destination Bin</Label>
+              <LocationSelect
+                id="location"
+                warehouseId={receipt?.warehouse_id}
+                value={lineForm.location_id}
+                onChange={(value) => setLineForm({ ...lineForm, location_id: value })}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingLine ? "Save Line" : "Add Line"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={backorderOpen} onOpenChange={setBackorderOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create a backorder?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Some lines were received short. A backorder receipt can track the rest.
+            </p>
+            <ul className="text-sm space-y-1">
+              {shortLines.map((line) => (
+                <li key={line.id} className="flex justify-between">
+                  <span>{line.products?.name}</span>
+                  <span className="text-muted-foreground">
+                    {shortfallFor(line)} {line.products?.unit_of_measure} outstanding
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => handleValidate(false)} disabled={validating}>
+                No Backorder
+              </Button>
+              <Button onClick={() => handleValidate(true)} disabled={validating}>
+                Create Backorder
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {receipt?.reference}?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A canceled receipt cannot be reopened or validated. No stock has been posted
+              for it yet.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCancelOpen(false)}>
+                Keep Receipt
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleStatusChange("canceled", "Receipt canceled")}
+                disabled={changingStatus}
+              >
+                Cancel Receipt
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={reverseOpen}
+        onOpenChange={(open) => {
+          setReverseOpen(open);
+          if (!open) setCancelReason("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {receipt?.reference}?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This receipt is done. Cancelling it posts reversing movements that take its
+              stock back out of {receipt?.warehouses?.name ?? "the warehouse"}; the original
+              movements stay in the ledger. Only managers can cancel a done receipt.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-cancel-reason">Reason *</Label>
+              <Textarea
+                id="receipt-cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Why is this receipt being canceled?"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReverseOpen(false)}>
+                Keep Receipt
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleReverse}
+                disabled={changingStatus || !cancelReason.trim()}
+              >
+                Cancel Receipt
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default ReceiptDetail;
@@ -1,11 +1,12 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Plus, FileText } from "lucide-react";
+import { Plus, FileText, CornerDownRight } from "lucide-react";
 import { toast } from "sonner";
-import { Badge } from "@/components/ui/badge";
+import StatusBadge from "@/components/StatusBadge";
 import {
   Dialog,
   DialogContent,
@@ -22,14 +23,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { expectedArrival } from "@/lib/suppliers";
+import { groupBackorderChains } from "@/lib/backorders";
 
 interface Receipt {
   id: string;
   reference: string;
-  supplier_name: string;
   status: string;
   scheduled_date: string | null;
   created_at: string;
+  backorder_of_id: string | null;
+  suppliers: { name: string } | null;
 }
 
 interface Warehouse {
@@ -37,13 +41,21 @@ interface Warehouse {
   name: string;
 }
 
+interface Supplier {
+  id: string;
+  name: string;
+  lead_time_days: number;
+}
+
 const Receipts = () => {
+  const navigate = useNavigate();
   const [receipts, setReceipts] = useState<Receipt[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
-    supplier_name: "",
+    supplier_id: "",
     warehouse_id: "",
     scheduled_date: "",
   });
@@ -51,13 +63,14 @@ const Receipts = () => {
   useEffect(() => {
     fetchReceipts();
     fetchWarehouses();
+    fetchSuppliers();
   }, []);
 
   const fetchReceipts = async () => {
     try {
       const { data, error } = await supabase
         .from("receipts")
-        .select("*")
+        .select("*, suppliers(name)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -84,30 +97,64 @@ const Receipts = () => {
     }
   };
 
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("id, name, lead_time_days")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+    }
+  };
+
+  const referenceById = new Map(receipts.map((receipt) => [receipt.id, receipt.reference]));
+
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    setFormData({
+      ...formData,
+      supplier_id: supplierId,
+      scheduled_date:
+        formData.scheduled_date || (supplier ? expectedArrival(supplier.lead_time_days) : ""),
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!formData.supplier_id) {
+      toast.error("Select a supplier");
+      return;
+    }
+
     setLoading(true);
 
     try {
-      // Generate reference number
-      const reference = `RCP-${Date.now()}`;
-
-      const { error } = await supabase.from("receipts").insert([
-        {
-          reference,
-          supplier_name: formData.supplier_name,
-          warehouse_id: formData.warehouse_id,
-          scheduled_date: formData.scheduled_date || null,
-          status: "draft",
-        },
-      ]);
+      // The reference is numbered by the database
+      const { data, error } = await supabase
+        .from("receipts")
+        .insert([
+          {
+            supplier_id: formData.supplier_id,
+            warehouse_id: formData.warehouse_id,
+            scheduled_date: formData.scheduled_date || null,
+            status: "draft",
+          },
+        ])
+        .select("reference")
+        .single();
 
       if (error) throw error;
 
-      toast.success("Receipt created successfully");
+      toast.success(`Receipt ${data.reference} created`);
       setDialogOpen(false);
       setFormData({
-        supplier_name: "",
+        supplier_id: "",
         warehouse_id: "",
         scheduled_date: "",
       });
@@ -119,17 +166,6 @@ const Receipts = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      draft: "bg-muted text-muted-foreground",
-      waiting: "bg-warning/20 text-warning",
-      ready: "bg-accent/20 text-accent",
-      done: "bg-success/20 text-success",
-      canceled: "bg-destructive/20 text-destructive",
-    };
-    return colors[status] || colors.draft;
-  };
-
   return (
     <Layout>
       <div className="space-y-6">
@@ -154,15 +190,19 @@ const Receipts = () => {
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="supplier">Supplier Name *</Label>
-                  <Input
-                    id="supplier"
-                    value={formData.supplier_name}
-                    onChange={(e) =>
-                      setFormData({ ...formData, supplier_name: e.target.value })
-                    }
-                    required
-                  />
+                  <Label htmlFor="supplier">Supplier *</Label>
+                  <Select value={formData.supplier_id} onValueChange={handleSupplierChange}>
+                    <SelectTrigger id="supplier">
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div className="space-y-2">
@@ -229,26 +269,40 @@ const Receipts = () => {
           </Card>
         ) : (
           <div className="space-y-3">
-            {receipts.map((receipt) => (
-              <Card key={receipt.id} className="p-6 hover:shadow-md transition-shadow">
+            {groupBackorderChains(receipts).map(({ item: receipt, depth }) => (
+              <Card
+                key={receipt.id}
+                className="p-6 hover:shadow-md transition-shadow"
+                style={{ marginLeft: depth * 32 }}
+              >
                 <div className="flex items-center justify-between">
                   <div className="space-y-1">
                     <div className="flex items-center gap-3">
+                      {depth > 0 && <CornerDownRight className="h-4 w-4 text-muted-foreground" />}
                       <h3 className="font-semibold text-lg">{receipt.reference}</h3>
-                      <Badge className={getStatusColor(receipt.status)}>
-                        {receipt.status}
-                      </Badge>
+                      <StatusBadge status={receipt.status} />
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Supplier: {receipt.supplier_name}
+                      Supplier: {receipt.suppliers?.name}
                     </p>
+                    {receipt.backorder_of_id && (
+                      <p className="text-xs text-muted-foreground">
+                        Backorder of{" "}
+                        {referenceById.get(receipt.backorder_of_id) ?? "another receipt"}
+                      </p>
+                    )}
                     {receipt.scheduled_date && (
                       <p className="text-xs text-muted-foreground">
                         Scheduled: {new Date(receipt.scheduled_date).toLocaleDateString()}
                       </p>
                     )}
                   </div>
-                  <Button variant="outline">View Details</Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/receipts/${receipt.id}`)}
+                  >
+                    View Details
+                  </Button>
                 </div>
               </Card>
             ))}
@@ -0,0 +1,625 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  CheckCircle2,
+  PackageOpen,
+  TruckIcon,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface SalesOrder {
+  id: string;
+  reference: string;
+  status: string;
+  customer_id: string;
+  requested_ship_date: string | null;
+  confirmed_date: string | null;
+  notes: string | null;
+  warehouses: { name: string } | null;
+  customers: { name: string } | null;
+  customer_addresses: { label: string; address: string } | null;
+}
+
+interface SalesOrderLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+}
+
+interface LineProgress {
+  delivered: number;
+  planned: number;
+}
+
+interface Delivery {
+  id: string;
+  reference: string;
+  status: string;
+  scheduled_date: string | null;
+  delivered_date: string | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+}
+
+const emptyLineForm = {
+  product_id: "",
+  quantity: "",
+  unit_price: "",
+};
+
+const SalesOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<SalesOrder | null>(null);
+  const [lines, setLines] = useState<SalesOrderLine[]>([]);
+  const [progress, setProgress] = useState<Record<string, LineProgress>>({});
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLine, setEditingLine] = useState<SalesOrderLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .select("*, warehouses(name), customers(name), customer_addresses(label, address)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrder(data);
+    } catch (error) {
+      console.error("Error fetching sales order:", error);
+      toast.error("Failed to load sales order");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_order_lines")
+        .select("*, products(name, sku, unit_of_measure)")
+        .eq("sales_order_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setLines(data || []);
+    } catch (error) {
+      console.error("Error fetching sales order lines:", error);
+      toast.error("Failed to load sales order lines");
+    }
+  }, [id]);
+
+  // Shipped and on-delivery quantities for each order line
+  const fetchProgress = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_order_line_progress")
+        .select("sales_order_line_id, delivered_quantity, planned_quantity")
+        .eq("sales_order_id", id);
+
+      if (error) throw error;
+
+      const byLine: Record<string, LineProgress> = {};
+      (data || []).forEach((row) => {
+        byLine[row.sales_order_line_id] = {
+          delivered: Number(row.delivered_quantity),
+          planned: Number(row.planned_quantity),
+        };
+      });
+      setProgress(byLine);
+    } catch (error) {
+      console.error("Error fetching sales order progress:", error);
+    }
+  }, [id]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("deliveries")
+        .select("id, reference, status, scheduled_date, delivered_date")
+        .eq("sales_order_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setDeliveries(data || []);
+    } catch (error) {
+      console.error("Error fetching deliveries:", error);
+    }
+  }, [id]);
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrder();
+    fetchLines();
+    fetchProgress();
+    fetchDeliveries();
+    fetchProducts();
+  }, [fetchOrder, fetchLines, fetchProgress, fetchDeliveries]);
+
+  const isDraft = order?.status === "draft";
+  const isOpen = order?.status === "confirmed" || order?.status === "partially_delivered";
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+  // Quantity neither shipped nor already on an open delivery
+  const unplannedFor = (line: SalesOrderLine) => {
+    const lineProgress = progress[line.id] ?? { delivered: 0, planned: 0 };
+    return Math.max(line.quantity - lineProgress.delivered - lineProgress.planned, 0);
+  };
+  const hasUnplanned = lines.some((line) => unplannedFor(line) > 0);
+
+  const openAddDialog = () => {
+    setEditingLine(null);
+    setLineForm(emptyLineForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (line: SalesOrderLine) => {
+    setEditingLine(line);
+    setLineForm({
+      product_id: line.product_id,
+      quantity: String(line.quantity),
+      unit_price: String(line.unit_price),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(lineForm.quantity);
+    const unitPrice = parseFloat(lineForm.unit_price) || 0;
+
+    if (!lineForm.product_id) {
+      toast.error("Select a product");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Quantity must be greater than zero");
+      return;
+    }
+    if (unitPrice < 0) {
+      toast.error("Unit price cannot be negative");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const values = {
+        product_id: lineForm.product_id,
+        quantity,
+        unit_price: unitPrice,
+      };
+
+      const { error } = editingLine
+        ? await supabase.from("sales_order_lines").update(values).eq("id", editingLine.id)
+        : await supabase.from("sales_order_lines").insert([{ ...values, sales_order_id: id }]);
+
+      if (error) throw error;
+
+      toast.success(editingLine ? "Line updated" : "Line added");
+      setDialogOpen(false);
+      fetchLines();
+      fetchProgress();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save line");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: SalesOrderLine) => {
+    try {
+      const { error } = await supabase.from("sales_order_lines").delete().eq("id", line.id);
+
+      if (error) throw error;
+
+      toast.success("Line removed");
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove line");
+    }
+  };
+
+  // Confirming reserves stock on a ready delivery; later calls ship what is left
+  const handleShip = async (confirm: boolean) => {
+    setProcessing(true);
+
+    try {
+      const { data: deliveryId, error } = confirm
+        ? await supabase.rpc("confirm_sales_order", { _sales_order_id: id })
+        : await supabase.rpc("create_sales_order_delivery", { _sales_order_id: id });
+
+      if (error) throw error;
+
+      toast.success(
+        confirm ? "Sales order confirmed and stock reserved" : "Delivery created for remaining items",
+        {
+          action: {
+            label: "Open delivery",
+            onClick: () => navigate(`/deliveries/${deliveryId}`),
+          },
+        }
+      );
+      fetchOrder();
+      fetchProgress();
+      fetchDeliveries();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create delivery");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (!loading && !order) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Sales order not found</p>
+            <Button variant="link" onClick={() => navigate("/sales-orders")}>
+              Back to sales orders
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/sales-orders")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-4xl font-bold">{order?.reference}</h1>
+                {order && <StatusBadge status={order.status} />}
+              </div>
+              <p className="text-muted-foreground">
+                Customer:{" "}
+                <button
+                  type="button"
+                  className="hover:underline"
+                  onClick={() => navigate(`/customers/${order?.customer_id}`)}
+                >
+                  {order?.customers?.name}
+                </button>
+              </p>
+            </div>
+          </div>
+          {isDraft && (
+            <Button onClick={() => handleShip(true)} disabled={processing || lines.length === 0}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Confirm
+            </Button>
+          )}
+          {isOpen && hasUnplanned && (
+            <Button onClick={() => handleShip(false)} disabled={processing}>
+              <TruckIcon className="mr-2 h-4 w-4" />
+              Ship Remaining
+            </Button>
+          )}
+        </div>
+
+        {/* Sales Order Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Ship From</p>
+              <p className="font-medium">{order?.warehouses?.name ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Ship To</p>
+              {order?.customer_addresses ? (
+                <>
+                  <p className="font-medium">{order.customer_addresses.label}</p>
+                  <p className="text-muted-foreground whitespace-pre-line">
+                    {order.customer_addresses.address}
+                  </p>
+                </>
+              ) : (
+                <p className="font-medium">-</p>
+              )}
+            </div>
+            <div>
+              <p className="text-muted-foreground">Requested Ship Date</p>
+              <p className="font-medium">
+                {order?.requested_ship_date
+                  ? new Date(order.requested_ship_date).toLocaleDateString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Confirmed</p>
+              <p className="font-medium">
+                {order?.confirmed_date
+                  ? new Date(order.confirmed_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+            {order?.notes && (
+              <div className="md:col-span-4">
+                <p className="text-muted-foreground">Notes</p>
+                <p className="font-medium whitespace-pre-line">{order.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sales Order Lines */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Products</CardTitle>
+            {isDraft && (
+              <Button size="sm" onClick={openAddDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No products on this sales order yet</p>
+                <p className="text-sm mt-1">Add the products the customer ordered</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Delivered</TableHead>
+                    <TableHead className="text-right">On Delivery</TableHead>
+                    {isDraft && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const lineProgress = progress[line.id] ?? { delivered: 0, planned: 0 };
+                    const unplanned = unplannedFor(line);
+
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <p className="font-medium">{line.products?.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            SKU: {line.products?.sku}
+                          </p>
+                          {isOpen && unplanned > 0 && (
+                            <p className="text-xs text-warning">
+                              {unplanned} {line.products?.unit_of_measure} not yet on a delivery
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell className="text-right">{line.unit_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {(line.quantity * line.unit_price).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {lineProgress.delivered} {line.products?.unit_of_measure}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {lineProgress.planned} {line.products?.unit_of_measure}
+                        </TableCell>
+                        {isDraft && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(line)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteLine(line)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Order Total</TableCell>
+                    <TableCell className="text-right">{total.toFixed(2)}</TableCell>
+                    <TableCell colSpan={isDraft ? 3 : 2} />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Deliveries generated from this order */}
+        {deliveries.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Scheduled</TableHead>
+                    <TableHead>Delivered</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow
+                      key={delivery.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/deliveries/${delivery.id}`)}
+                    >
+                      <TableCell className="font-medium">{delivery.reference}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={delivery.status} />
+                      </TableCell>
+                      <TableCell>
+                        {delivery.scheduled_date
+                          ? new Date(delivery.scheduled_date).toLocaleDateString()
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.delivered_date
+                          ? new Date(delivery.delivered_date).toLocaleString()
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine ? "Edit Line" : "Add Line"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product">Product *</Label>
+              <Select
+                value={lineForm.product_id}
+                onValueChange={(value) => setLineForm({ ...lineForm, product_id: value })}
+              >
+                <SelectTrigger id="product">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Quantity *</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={lineForm.quantity}
+                  onChange={(e) => setLineForm({ ...lineForm, quantity: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="unit-price">Unit Price</Label>
+                <Input
+                  id="unit-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lineForm.unit_price}
+                  onChange={(e) => setLineForm({ ...lineForm, unit_price: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingLine ? "Save Line" : "Add Line"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default SalesOrderDetail;
@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Plus, ClipboardList } from "lucide-react";
+import { toast } from "sonner";
+import StatusBadge from "@/components/StatusBadge";
+import CustomerSelect from "@/components/CustomerSelect";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SalesOrder {
+  id: string;
+  reference: string;
+  status: string;
+  requested_ship_date: string | null;
+  customers: { name: string } | null;
+  warehouses: { name: string } | null;
+  sales_order_lines: { quantity: number; unit_price: number }[];
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+interface Address {
+  id: string;
+  label: string;
+  address: string;
+  is_default: boolean;
+}
+
+const NEW_ADDRESS = "new";
+
+const emptyForm = {
+  customer_id: "",
+  shipping_address_id: "",
+  new_address: "",
+  warehouse_id: "",
+  requested_ship_date: "",
+  notes: "",
+};
+
+const orderTotal = (order: SalesOrder) =>
+  order.sales_order_lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+const SalesOrders = () => {
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchOrders();
+    fetchWarehouses();
+  }, []);
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .select(
+          "id, reference, status, requested_ship_date, customers(name), warehouses(name), sales_order_lines(quantity, unit_price)"
+        )
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setOrders(data || []);
+    } catch (error) {
+      console.error("Error fetching sales orders:", error);
+      toast.error("Failed to load sales orders");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("id, name")
+        .eq("is_active", true);
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  // Picking a customer loads their shipping addresses and preselects the default
+  const handleCustomerChange = async (customerId: string) => {
+    setFormData({ ...formData, customer_id: customerId, shipping_address_id: "" });
+
+    const { data, error } = await supabase
+      .from("customer_addresses")
+      .select("id, label, address, is_default")
+      .eq("customer_id", customerId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching customer addresses:", error);
+      return;
+    }
+
+    const customerAddresses = data || [];
+    const defaultAddress =
+      customerAddresses.find((address) => address.is_default) ?? customerAddresses[0];
+    setAddresses(customerAddresses);
+    setFormData((current) => ({
+      ...current,
+      shipping_address_id: defaultAddress?.id ?? NEW_ADDRESS,
+    }));
+  };
+
+  // A new address typed in the form is saved to the customer first
+  const resolveShippingAddress = async () => {
+    if (formData.shipping_address_id !== NEW_ADDRESS) {
+      return formData.shipping_address_id || null;
+    }
+    if (!formData.new_address.trim()) return null;
+
+    const { data, error } = await supabase
+      .from("customer_addresses")
+      .insert([
+        {
+          customer_id: formData.customer_id,
+          address: formData.new_address.trim(),
+          is_default: addresses.length === 0,
+        },
+      ])
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.customer_id) {
+      toast.error("Select a customer");
+      return;
+    }
+    if (!formData.warehouse_id) {
+      toast.error("Select a warehouse");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const shippingAddressId = await resolveShippingAddress();
+
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .insert([
+          {
+            customer_id: formData.customer_id,
+            shipping_address_id: shippingAddressId,
+            warehouse_id: formData.warehouse_id,
+            requested_ship_date: formData.requested_ship_date || null,
+            notes: formData.notes.trim() || null,
+          },
+        ])
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      toast.success("Sales order created");
+      setDialogOpen(false);
+      setFormData(emptyForm);
+      setAddresses([]);
+      navigate(`/sales-orders/${data.id}`);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create sales order");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Sales Orders</h1>
+            <p className="text-muted-foreground">
+              Take customer orders and ship them through deliveries
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Sales Order
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Sales Order</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="customer">Customer *</Label>
+                  <CustomerSelect
+                    id="customer"
+                    value={formData.customer_id}
+                    onChange={handleCustomerChange}
+                  />
+                </div>
+
+                {formData.customer_id && (
+                  <div className="space-y-2">
+                    <Label htmlFor="address">Shipping Address</Label>
+                    <Select
+                      value={formData.shipping_address_id}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, shipping_address_id: value })
+                      }
+                    >
+                      <SelectTrigger id="address">
+                        <SelectValue placeholder="Select address" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {addresses.map((address) => (
+                          <SelectItem key={address.id} value={address.id}>
+                            {address.label} · {address.address.split("\n")[0]}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={NEW_ADDRESS}>New address...</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {formData.shipping_address_id === NEW_ADDRESS && (
+                      <Textarea
+                        value={formData.new_address}
+                        onChange={(e) =>
+                          setFormData({ ...formData, new_address: e.target.value })
+                        }
+                        placeholder="Street, city, postal code, country"
+                        rows={3}
+                      />
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="warehouse">Ship From *</Label>
+                  <Select
+                    value={formData.warehouse_id}
+                    onValueChange={(value) => setFormData({ ...formData, warehouse_id: value })}
+                  >
+                    <SelectTrigger id="warehouse">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ship-date">Requested Ship Date</Label>
+                  <Input
+                    id="ship-date"
+                    type="date"
+                    value={formData.requested_ship_date}
+                    onChange={(e) =>
+                      setFormData({ ...formData, requested_ship_date: e.target.value })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={loading}>
+                    Create Sales Order
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Sales Orders List */}
+        {orders.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <ClipboardList className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No sales orders yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Create a sales order to reserve stock for a customer
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => (
+              <Card key={order.id} className="p-6 hover:shadow-md transition-shadow">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-lg">{order.reference}</h3>
+                      <StatusBadge status={order.status} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Customer: {order.customers?.name} · {order.warehouses?.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {order.sales_order_lines.length}{" "}
+                      {order.sales_order_lines.length === 1 ? "line" : "lines"} · Total{" "}
+                      {orderTotal(order).toFixed(2)}
+                      {order.requested_ship_date &&
+                        ` · Ship by ${new Date(order.requested_ship_date).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/sales-orders/${order.id}`)}
+                  >
+                    View Details
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default SalesOrders;
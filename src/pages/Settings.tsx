@@ -1,6 +1,8 @@
 import Layout from "@/components/Layout";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Settings as SettingsIcon } from "lucide-react";
+import WarehouseSettings from "@/components/settings/WarehouseSettings";
+import LocationSettings from "@/components/settings/LocationSettings";
+import CategorySettings from "@/components/settings/CategorySettings";
+import DocumentNumberingSettings from "@/components/settings/DocumentNumberingSettings";
 
 const Settings = () => {
   return (
@@ -13,18 +15,10 @@ const Settings = () => {
           </p>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>System Settings</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-12 text-muted-foreground">
-              <SettingsIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>Settings panel coming soon</p>
-              <p className="text-sm mt-1">Configure warehouses, categories, and user roles</p>
-            </div>
-          </CardContent>
-        </Card>
+        <WarehouseSettings />
+        <LocationSettings />
+        <CategorySettings />
+        <DocumentNumberingSettings />
       </div>
     </Layout>
   );
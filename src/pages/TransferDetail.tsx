@@ -0,0 +1,700 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import StatusBadge from "@/components/StatusBadge";
+import LocationSelect from "@/components/LocationSelect";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  PackageOpen,
+  AlertTriangle,
+  CheckCircle2,
+  Truck,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatExpiry, sortFefo, suggestLot } from "@/lib/lots";
+import { parseSerials } from "@/lib/serials";
+import { cn } from "@/lib/utils";
+
+interface Transfer {
+  id: string;
+  reference: string;
+  status: string;
+  source_warehouse_id: string;
+  destination_warehouse_id: string;
+  scheduled_date: string | null;
+  shipped_date: string | null;
+  received_date: string | null;
+  notes: string | null;
+  source: { name: string } | null;
+  destination: { name: string } | null;
+}
+
+interface TransferLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  lot_id: string | null;
+  source_location_id: string | null;
+  destination_location_id: string | null;
+  serial_numbers: string[];
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+  lots: { lot_number: string; expiry_date: string | null } | null;
+  source_location: { code: string } | null;
+  destination_location: { code: string } | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  is_lot_tracked: boolean;
+  is_serial_tracked: boolean;
+}
+
+interface LotBalance {
+  lot_id: string | null;
+  product_id: string | null;
+  lot_number: string | null;
+  expiry_date: string | null;
+  quantity: number | null;
+}
+
+const emptyLineForm = {
+  product_id: "",
+  quantity: "",
+  lot_id: null as string | null,
+  source_location_id: null as string | null,
+  destination_location_id: null as string | null,
+  serial_numbers: "",
+};
+
+const TransferDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [transfer, setTransfer] = useState<Transfer | null>(null);
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [available, setAvailable] = useState<Record<string, number>>({});
+  const [lotBalances, setLotBalances] = useState<LotBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLine, setEditingLine] = useState<TransferLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+
+  const fetchTransfer = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("transfers")
+        .select(
+          "*, source:warehouses!transfers_source_warehouse_id_fkey(name), destination:warehouses!transfers_destination_warehouse_id_fkey(name)"
+        )
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTransfer(data);
+    } catch (error) {
+      console.error("Error fetching transfer:", error);
+      toast.error("Failed to load transfer");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchLines = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("transfer_lines")
+        .select(
+          "*, products(name, sku, unit_of_measure), lots(lot_number, expiry_date), source_location:locations!transfer_lines_source_location_id_fkey(code), destination_location:locations!transfer_lines_destination_location_id_fkey(code)"
+        )
+        .eq("transfer_id", id)
+        .order("created_at");
+
+      if (error) throw error;
+      setLines(data || []);
+    } catch (error) {
+      console.error("Error fetching transfer lines:", error);
+      toast.error("Failed to load transfer lines");
+    }
+  }, [id]);
+
+  // A transfer can only take what ready deliveries have not reserved
+  const fetchAvailable = useCallback(async (warehouseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("stock_availability")
+        .select("product_id, available_to_promise")
+        .eq("warehouse_id", warehouseId);
+
+      if (error) throw error;
+
+      const balances: Record<string, number> = {};
+      (data || []).forEach((row) => {
+        if (row.product_id) balances[row.product_id] = Number(row.available_to_promise ?? 0);
+      });
+      setAvailable(balances);
+    } catch (error) {
+      console.error("Error fetching stock availability:", error);
+    }
+  }, []);
+
+  const fetchLotBalances = useCallback(async (warehouseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("lot_balances")
+        .select("lot_id, product_id, lot_number, expiry_date, quantity")
+        .eq("warehouse_id", warehouseId)
+        .gt("quantity", 0);
+
+      if (error) throw error;
+      setLotBalances(data || []);
+    } catch (error) {
+      console.error("Error fetching lot balances:", error);
+    }
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, is_lot_tracked, is_serial_tracked")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfer();
+    fetchLines();
+    fetchProducts();
+  }, [fetchTransfer, fetchLines]);
+
+  useEffect(() => {
+    if (transfer?.source_warehouse_id) {
+      fetchAvailable(transfer.source_warehouse_id);
+      fetchLotBalances(transfer.source_warehouse_id);
+    }
+  }, [transfer?.source_warehouse_id, fetchAvailable, fetchLotBalances]);
+
+  // Lines can only change before the stock leaves the source warehouse
+  const isDraft = transfer?.status === "draft";
+  const isOpen = isDraft || transfer?.status === "in_transit";
+
+  const requestedByProduct = lines.reduce<Record<string, number>>((totals, line) => {
+    totals[line.product_id] = (totals[line.product_id] || 0) + Number(line.quantity);
+    return totals;
+  }, {});
+
+  const isShort = (productId: string) =>
+    (requestedByProduct[productId] || 0) > (available[productId] || 0);
+
+  const shortLines = isDraft ? lines.filter((line) => isShort(line.product_id)) : [];
+
+  // Lot-tracked lines move a specific lot, suggested first-expired-first-out
+  const lotsFor = (productId: string) =>
+    sortFefo(lotBalances.filter((lot) => lot.product_id === productId));
+
+  const selectedProduct = products.find((product) => product.id === lineForm.product_id);
+  const selectedLots = selectedProduct?.is_lot_tracked ? lotsFor(selectedProduct.id) : [];
+  const suggestedLot = suggestLot(selectedLots);
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    setLineForm({
+      ...lineForm,
+      product_id: productId,
+      lot_id: product?.is_lot_tracked ? suggestLot(lotsFor(productId))?.lot_id ?? null : null,
+    });
+  };
+
+  const openAddDialog = () => {
+    setEditingLine(null);
+    setLineForm(emptyLineForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (line: TransferLine) => {
+    setEditingLine(line);
+    setLineForm({
+      product_id: line.product_id,
+      quantity: String(line.quantity),
+      lot_id: line.lot_id,
+      source_location_id: line.source_location_id,
+      destination_location_id: line.destination_location_id,
+      serial_numbers: line.serial_numbers.join("\n"),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantity = parseFloat(lineForm.quantity);
+
+    if (!lineForm.product_id) {
+      toast.error("Select a product");
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error("Quantity must be greater than zero");
+      return;
+    }
+    if (selectedProduct?.is_lot_tracked && !lineForm.lot_id) {
+      toast.error(`${selectedProduct.name} is lot-tracked; choose a lot to move`);
+      return;
+    }
+
+    // Serial-tracked lines name exactly which units move
+    const serialNumbers = selectedProduct?.is_serial_tracked
+      ? parseSerials(lineForm.serial_numbers)
+      : [];
+    if (selectedProduct?.is_serial_tracked && serialNumbers.length !== quantity) {
+      toast.error(`Enter ${quantity} distinct serials, one for each unit`);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const values = {
+        product_id: lineForm.product_id,
+        quantity,
+        lot_id: selectedProduct?.is_lot_tracked ? lineForm.lot_id : null,
+        source_location_id: lineForm.source_location_id,
+        destination_location_id: lineForm.destination_location_id,
+        serial_numbers: serialNumbers,
+      };
+
+      const { error } = editingLine
+        ? await supabase.from("transfer_lines").update(values).eq("id", editingLine.id)
+        : await supabase.from("transfer_lines").insert([{ ...values, transfer_id: id }]);
+
+      if (error) throw error;
+
+      toast.success(editingLine ? "Line updated" : "Line added");
+      setDialogOpen(false);
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save line");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLine = async (line: TransferLine) => {
+    try {
+      const { error } = await supabase.from("transfer_lines").delete().eq("id", line.id);
+
+      if (error) throw error;
+
+      toast.success("Line removed");
+      fetchLines();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove line");
+    }
+  };
+
+  const handlePost = async (action: "dispatch_transfer" | "validate_transfer") => {
+    setPosting(true);
+
+    try {
+      const { error } = await supabase.rpc(action, { _transfer_id: id });
+
+      if (error) throw error;
+
+      toast.success(
+        action === "dispatch_transfer"
+          ? "Transfer dispatched from source warehouse"
+          : "Transfer received at destination warehouse"
+      );
+      fetchTransfer();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to process transfer");
+    } finally {
+      setPosting(false);
+      if (transfer) {
+        fetchAvailable(transfer.source_warehouse_id);
+        fetchLotBalances(transfer.source_warehouse_id);
+      }
+    }
+  };
+
+  if (!loading && !transfer) {
+    return (
+      <Layout>
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">Transfer not found</p>
+            <Button variant="link" onClick={() => navigate("/transfers")}>
+              Back to transfers
+            </Button>
+          </div>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/transfers")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h1 className="text-4xl font-bold">{transfer?.reference}</h1>
+                {transfer && <StatusBadge status={transfer.status} />}
+              </div>
+              <p className="text-muted-foreground">
+                {transfer?.source?.name} → {transfer?.destination?.name}
+              </p>
+            </div>
+          </div>
+          {isOpen && (
+            <div className="flex gap-2">
+              {isDraft && (
+                <Button
+                  variant="outline"
+                  onClick={() => handlePost("dispatch_transfer")}
+                  disabled={posting || lines.length === 0 || shortLines.length > 0}
+                >
+                  <Truck className="mr-2 h-4 w-4" />
+                  Dispatch
+                </Button>
+              )}
+              <Button
+                onClick={() => handlePost("validate_transfer")}
+                disabled={posting || lines.length === 0 || shortLines.length > 0}
+              >
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                {isDraft ? "Validate" : "Receive"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Transfer Info */}
+        <Card>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 text-sm">
+            <div>
+              <p className="text-muted-foreground">Scheduled</p>
+              <p className="font-medium">
+                {transfer?.scheduled_date
+                  ? new Date(transfer.scheduled_date).toLocaleDateString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Shipped</p>
+              <p className="font-medium">
+                {transfer?.shipped_date
+                  ? new Date(transfer.shipped_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Received</p>
+              <p className="font-medium">
+                {transfer?.received_date
+                  ? new Date(transfer.received_date).toLocaleString()
+                  : "-"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {shortLines.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Insufficient stock</AlertTitle>
+            <AlertDescription>
+              {shortLines.length === 1 ? "1 line asks" : `${shortLines.length} lines ask`}{" "}
+              for more than is available in {transfer?.source?.name}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Transfer Lines */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Products</CardTitle>
+            {isDraft && (
+              <Button size="sm" onClick={openAddDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {lines.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <PackageOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No products on this transfer yet</p>
+                <p className="text-sm mt-1">Add the products to move</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Bins</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    {isDraft && <TableHead className="text-right">Available at Source</TableHead>}
+                    {isDraft && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const short = isDraft && isShort(line.product_id);
+
+                    return (
+                      <TableRow key={line.id} className={cn(short && "bg-destructive/5")}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {short && (
+                              <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+                            )}
+                            <div>
+                              <p className="font-medium">{line.products?.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                SKU: {line.products?.sku}
+                              </p>
+                              {line.serial_numbers.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  Serials: {line.serial_numbers.join(", ")}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {line.lots ? (
+                            <div>
+                              <p className="font-medium">{line.lots.lot_number}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatExpiry(line.lots.expiry_date)}
+                              </p>
+                            </div>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {line.source_location || line.destination_location
+                            ? `${line.source_location?.code ?? "-"} → ${line.destination_location?.code ?? "-"}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity} {line.products?.unit_of_measure}
+                        </TableCell>
+                        {isDraft && (
+                          <TableCell
+                            className={cn("text-right", short && "text-destructive font-medium")}
+                          >
+                            {available[line.product_id] || 0} {line.products?.unit_of_measure}
+                          </TableCell>
+                        )}
+                        {isDraft && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(line)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteLine(line)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine ? "Edit Line" : "Add Line"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product">Product *</Label>
+              <Select value={lineForm.product_id} onValueChange={handleProductChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.sku})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {lineForm.product_id && (
+                <p className="text-xs text-muted-foreground">
+                  Available in {transfer?.source?.name}: {available[lineForm.product_id] || 0}
+                </p>
+              )}
+            </div>
+
+            {selectedProduct?.is_lot_tracked && (
+              <div className="space-y-2">
+                <Label htmlFor="lot">Lot *</Label>
+                <Select
+                  value={lineForm.lot_id ?? ""}
+                  onValueChange={(value) => setLineForm({ ...lineForm, lot_id: value })}
+                >
+                  <SelectTrigger id="lot">
+                    <SelectValue placeholder="Select lot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectedLots.map((lot) => (
+                      <SelectItem key={lot.lot_id} value={lot.lot_id}>
+                        {lot.lot_number} · {formatExpiry(lot.expiry_date)} · {lot.quantity} on hand
+                        {lot.lot_id === suggestedLot?.lot_id && " (suggested)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedLots.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    No lots of this product in {transfer?.source?.name}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="source-location">From Bin</Label>
+                <LocationSelect
+                  id="source-location"
+                  warehouseId={transfer?.source_warehouse_id}
+                  value={lineForm.source_location_id}
+                  onChange={(value) => setLineForm({ ...lineForm, source_location_id: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="destination-location">To Bin</Label>
+                <LocationSelect
+                  id="destination-location"
+                  warehouseId={transfer?.destination_warehouse_id}
+                  value={lineForm.destination_location_id}
+                  onChange={(value) =>
+                    setLineForm({ ...lineForm, destination_location_id: value })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity *</Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={lineForm.quantity}
+                onChange={(e) =>
+                  setLineForm({ ...lineForm, quantity: e.target.value })
+                }
+                required
+              />
+            </div>
+
+            {selectedProduct?.is_serial_tracked && (
+              <div className="space-y-2">
+                <Label htmlFor="serials">Serial Numbers *</Label>
+                <Textarea
+                  id="serials"
+                  value={lineForm.serial_numbers}
+                  onChange={(e) =>
+                    setLineForm({ ...lineForm, serial_numbers: e.target.value })
+                  }
+                  placeholder="One serial per line"
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {parseSerials(lineForm.serial_numbers).length} of {lineForm.quantity || 0}{" "}
+                  serials entered
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingLine ? "Save Line" : "Add Line"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default TransferDetail;
@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Plus, ArrowLeftRight } from "lucide-react";
+import { toast } from "sonner";
+import StatusBadge from "@/components/StatusBadge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface Transfer {
+  id: string;
+  reference: string;
+  status: string;
+  scheduled_date: string | null;
+  created_at: string;
+  source: { name: string } | null;
+  destination: { name: string } | null;
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+const Transfers = () => {
+  const navigate = useNavigate();
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    source_warehouse_id: "",
+    destination_warehouse_id: "",
+    scheduled_date: "",
+  });
+
+  useEffect(() => {
+    fetchTransfers();
+    fetchWarehouses();
+  }, []);
+
+  const fetchTransfers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("transfers")
+        .select(
+          "*, source:warehouses!transfers_source_warehouse_id_fkey(name), destination:warehouses!transfers_destination_warehouse_id_fkey(name)"
+        )
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setTransfers(data || []);
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+      toast.error("Failed to load transfers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("warehouses")
+        .select("*")
+        .eq("is_active", true);
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.source_warehouse_id === formData.destination_warehouse_id) {
+      toast.error("Source and destination must be different warehouses");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("transfers")
+        .insert([
+          {
+            source_warehouse_id: formData.source_warehouse_id,
+            destination_warehouse_id: formData.destination_warehouse_id,
+            scheduled_date: formData.scheduled_date || null,
+            status: "draft",
+          },
+        ])
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      toast.success("Transfer created successfully");
+      setDialogOpen(false);
+      setFormData({
+        source_warehouse_id: "",
+        destination_warehouse_id: "",
+        scheduled_date: "",
+      });
+      navigate(`/transfers/${data.id}`);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create transfer");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Transfers</h1>
+            <p className="text-muted-foreground">
+              Move stock between warehouses
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Transfer
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create New Transfer</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="source">Source Warehouse *</Label>
+                  <Select
+                    value={formData.source_warehouse_id}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, source_warehouse_id: value })
+                    }
+                    required
+                  >
+                    <SelectTrigger id="source">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((wh) => (
+                        <SelectItem key={wh.id} value={wh.id}>
+                          {wh.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="destination">Destination Warehouse *</Label>
+                  <Select
+                    value={formData.destination_warehouse_id}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, destination_warehouse_id: value })
+                    }
+                    required
+                  >
+                    <SelectTrigger id="destination">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses
+                        .filter((wh) => wh.id !== formData.source_warehouse_id)
+                        .map((wh) => (
+                          <SelectItem key={wh.id} value={wh.id}>
+                            {wh.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="date">Scheduled Date</Label>
+                  <Input
+                    id="date"
+                    type="date"
+                    value={formData.scheduled_date}
+                    onChange={(e) =>
+                      setFormData({ ...formData, scheduled_date: e.target.value })
+                    }
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={loading}>
+                    Create Transfer
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Transfers List */}
+        {transfers.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <ArrowLeftRight className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No transfers yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Create a transfer to move stock between warehouses
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {transfers.map((transfer) => (
+              <Card key={transfer.id} className="p-6 hover:shadow-md transition-shadow">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-lg">{transfer.reference}</h3>
+                      <StatusBadge status={transfer.status} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {transfer.source?.name} → {transfer.destination?.name}
+                    </p>
+                    {transfer.scheduled_date && (
+                      <p className="text-xs text-muted-foreground">
+                        Scheduled: {new Date(transfer.scheduled_date).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/transfers/${transfer.id}`)}
+                  >
+                    View Details
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Transfers;
@@ -0,0 +1,4 @@
+-- Allow receipt lines to be removed from the receipt detail page
+CREATE POLICY "Users can delete receipt lines"
+  ON public.receipt_lines FOR DELETE
+  USING (auth.uid() IS NOT NULL);
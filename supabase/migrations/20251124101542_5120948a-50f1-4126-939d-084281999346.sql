@@ -0,0 +1,125 @@
+-- Stock posting for receipts
+
+-- Record the creating user on documents so ownership checks work
+ALTER TABLE public.receipts ALTER COLUMN created_by SET DEFAULT auth.uid();
+ALTER TABLE public.deliveries ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+-- Ledger rows are only written by the posting functions below
+DROP POLICY IF EXISTS "System can insert stock movements" ON public.stock_movements;
+
+-- Append one movement to the ledger and return the resulting balance.
+-- Postings for the same product and warehouse are serialised with an
+-- advisory lock so balance_after always reflects the previous row.
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+BEGIN
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, reference_id,
+    quantity, balance_after, notes, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Validate a receipt: post every line to the ledger and mark it done
+CREATE OR REPLACE FUNCTION public.validate_receipt(_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _posted NUMERIC(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT id, product_id, quantity, received_quantity
+    FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+    ORDER BY product_id, id
+  LOOP
+    _posted := COALESCE(NULLIF(_line.received_quantity, 0), _line.quantity);
+
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _receipt.warehouse_id,
+      'receipt',
+      _receipt_id,
+      _posted,
+      'Receipt ' || _receipt.reference
+    );
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+END;
+$$;
+
@@ -0,0 +1,4 @@
+-- Allow delivery lines to be removed from the delivery detail page
+CREATE POLICY "Users can delete delivery lines"
+  ON public.delivery_lines FOR DELETE
+  USING (auth.uid() IS NOT NULL);
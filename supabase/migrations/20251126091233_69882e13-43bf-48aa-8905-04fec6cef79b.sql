@@ -0,0 +1,123 @@
+-- Stock posting for deliveries
+
+-- Refuse any outbound posting that would take a balance below zero.
+-- The advisory lock is held until commit, so two transactions drawing
+-- on the same product and warehouse are checked one after the other.
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+  _product_name TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  IF _quantity < 0 AND _balance < 0 THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      _product_name, _balance - _quantity, -_quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, movement_type, reference_id,
+    quantity, balance_after, notes, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Validate a delivery: post every line out of stock and mark it done
+CREATE OR REPLACE FUNCTION public.validate_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Any shortfall raises and rolls back every posting made so far.
+  FOR _line IN
+    SELECT id, product_id, quantity
+    FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+    ORDER BY product_id, id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _delivery.warehouse_id,
+      'delivery',
+      _delivery_id,
+      -_line.quantity,
+      'Delivery ' || _delivery.reference
+    );
+
+    UPDATE public.delivery_lines
+    SET delivered_quantity = _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Products at or below their reorder level, per active warehouse.
+-- Warehouses with no movements for a product count as zero on hand.
+CREATE VIEW public.low_stock_items
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS product_id,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  p.reorder_level,
+  w.id AS warehouse_id,
+  w.name AS warehouse_name,
+  COALESCE(b.quantity, 0) AS quantity
+FROM public.products p
+CROSS JOIN public.warehouses w
+LEFT JOIN public.stock_balances b
+  ON b.product_id = p.id
+  AND b.warehouse_id = w.id
+WHERE p.is_active
+  AND w.is_active
+  AND p.reorder_level > 0
+  AND COALESCE(b.quantity, 0) <= p.reorder_level;
@@ -0,0 +1,197 @@
+-- Internal transfers between warehouses
+CREATE TYPE public.transfer_status AS ENUM ('draft', 'in_transit', 'done', 'canceled');
+
+CREATE TABLE public.transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,
+  source_warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE RESTRICT NOT NULL,
+  destination_warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE RESTRICT NOT NULL,
+  status transfer_status NOT NULL DEFAULT 'draft',
+  scheduled_date DATE,
+  shipped_date TIMESTAMPTZ,
+  received_date TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (source_warehouse_id <> destination_warehouse_id)
+);
+
+CREATE TABLE public.transfer_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id UUID REFERENCES public.transfers(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER transfers_updated_at
+  BEFORE UPDATE ON public.transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transfer_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transfers (same rules as receipts and deliveries)
+CREATE POLICY "Authenticated users can view transfers"
+  ON public.transfers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can create transfers"
+  ON public.transfers FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Staff can update own transfers or managers/admins can update all"
+  ON public.transfers FOR UPDATE
+  USING (
+    created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+-- RLS Policies for transfer_lines
+CREATE POLICY "Authenticated users can view transfer lines"
+  ON public.transfer_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert transfer lines"
+  ON public.transfer_lines FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update transfer lines"
+  ON public.transfer_lines FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete transfer lines"
+  ON public.transfer_lines FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Lock a transfer for posting after checking the caller may act on it
+CREATE OR REPLACE FUNCTION public.lock_transfer_for_posting(_transfer_id UUID)
+RETURNS public.transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _transfer
+  FROM public.transfers
+  WHERE id = _transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF NOT (
+    _transfer.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to process this transfer';
+  END IF;
+
+  IF _transfer.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', _transfer.reference, _transfer.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transfer_lines WHERE transfer_id = _transfer_id) THEN
+    RAISE EXCEPTION 'Transfer % has no lines', _transfer.reference;
+  END IF;
+
+  RETURN _transfer;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_transfer_for_posting(UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Ship a draft transfer: take stock out of the source warehouse
+CREATE OR REPLACE FUNCTION public.dispatch_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Transfer % is already in transit', _transfer.reference;
+  END IF;
+
+  FOR _line IN
+    SELECT product_id, quantity
+    FROM public.transfer_lines
+    WHERE transfer_id = _transfer_id
+    ORDER BY product_id, id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _transfer.source_warehouse_id,
+      'transfer',
+      _transfer_id,
+      -_line.quantity,
+      'Transfer ' || _transfer.reference || ' out'
+    );
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'in_transit',
+      shipped_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+-- Complete a transfer: post the inbound side at the destination, and the
+-- outbound side too when the transfer was never dispatched
+CREATE OR REPLACE FUNCTION public.validate_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status = 'draft' THEN
+    PERFORM public.dispatch_transfer(_transfer_id);
+  END IF;
+
+  FOR _line IN
+    SELECT product_id, quantity
+    FROM public.transfer_lines
+    WHERE transfer_id = _transfer_id
+    ORDER BY product_id, id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _transfer.destination_warehouse_id,
+      'transfer',
+      _transfer_id,
+      _line.quantity,
+      'Transfer ' || _transfer.reference || ' in'
+    );
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
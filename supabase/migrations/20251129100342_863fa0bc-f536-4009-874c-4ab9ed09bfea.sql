@@ -0,0 +1,79 @@
+-- Inventory adjustments with reason codes
+CREATE TYPE public.adjustment_reason AS ENUM ('damage', 'theft', 'found', 'correction');
+
+CREATE TABLE public.adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE RESTRICT NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity <> 0),
+  reason adjustment_reason NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Adjustments are created through create_adjustment only
+CREATE POLICY "Authenticated users can view adjustments"
+  ON public.adjustments FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Record an adjustment and post it to the ledger in one transaction.
+-- Damage and theft remove stock, found adds it, a correction goes either way.
+CREATE OR REPLACE FUNCTION public.create_adjustment(
+  _warehouse_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _reason adjustment_reason,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _adjustment_id UUID;
+  _reference TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF _reason IN ('damage', 'theft') AND _quantity > 0 THEN
+    RAISE EXCEPTION 'A % adjustment must remove stock', _reason;
+  END IF;
+
+  IF _reason = 'found' AND _quantity < 0 THEN
+    RAISE EXCEPTION 'A found adjustment must add stock';
+  END IF;
+
+  IF NULLIF(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Adjustment notes are required';
+  END IF;
+
+  _reference := 'ADJ-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::text;
+
+  INSERT INTO public.adjustments (reference, warehouse_id, product_id, quantity, reason, notes)
+  VALUES (_reference, _warehouse_id, _product_id, _quantity, _reason, _notes)
+  RETURNING id INTO _adjustment_id;
+
+  PERFORM public.post_stock_movement(
+    _product_id,
+    _warehouse_id,
+    'adjustment',
+    _adjustment_id,
+    _quantity,
+    'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes
+  );
+
+  RETURN _adjustment_id;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Stock movements ledger with the details the movements page displays
+CREATE VIEW public.stock_ledger
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  m.warehouse_id,
+  m.movement_type,
+  m.reference_id,
+  m.quantity,
+  m.balance_after,
+  m.notes,
+  m.created_by,
+  m.created_at,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.name AS warehouse_name,
+  COALESCE(r.reference, d.reference, t.reference, a.reference) AS document_reference,
+  pr.full_name AS created_by_name,
+  pr.email AS created_by_email
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+LEFT JOIN public.receipts r
+  ON m.movement_type = 'receipt' AND r.id = m.reference_id
+LEFT JOIN public.deliveries d
+  ON m.movement_type = 'delivery' AND d.id = m.reference_id
+LEFT JOIN public.transfers t
+  ON m.movement_type = 'transfer' AND t.id = m.reference_id
+LEFT JOIN public.adjustments a
+  ON m.movement_type = 'adjustment' AND a.id = m.reference_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Managers and admins can see who posted each movement
+CREATE POLICY "Managers and admins can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
@@ -0,0 +1,37 @@
+-- Warehouse management
+
+CREATE TRIGGER warehouses_updated_at
+  BEFORE UPDATE ON public.warehouses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- A warehouse cannot be deactivated while it still holds stock
+CREATE OR REPLACE FUNCTION public.prevent_warehouse_deactivation_with_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active AND EXISTS (
+    SELECT 1
+    FROM public.stock_balances
+    WHERE warehouse_id = NEW.id
+      AND quantity <> 0
+  ) THEN
+    RAISE EXCEPTION 'Warehouse % still holds stock. Transfer or adjust it to zero before deactivating.', NEW.code
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER warehouses_prevent_deactivation_with_stock
+  BEFORE UPDATE OF is_active ON public.warehouses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_warehouse_deactivation_with_stock();
+
+CREATE POLICY "Admins can delete warehouses"
+  ON public.warehouses FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,87 @@
+-- Category hierarchy
+ALTER TABLE public.categories
+  ADD COLUMN parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX categories_parent_id_idx ON public.categories(parent_id);
+
+CREATE TRIGGER categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- A category cannot be moved underneath itself or one of its descendants
+CREATE OR REPLACE FUNCTION public.prevent_category_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT NEW.parent_id AS id
+      UNION
+      SELECT c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.id
+      WHERE c.parent_id IS NOT NULL
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be placed inside itself or one of its subcategories'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_prevent_cycle
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_category_cycle();
+
+-- Delete a category, moving its products and subcategories to another
+-- category (or to the top level / uncategorised when none is given)
+CREATE OR REPLACE FUNCTION public.delete_category(
+  _category_id UUID,
+  _reassign_to UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete categories';
+  END IF;
+
+  IF _reassign_to IS NOT NULL AND EXISTS (
+    WITH RECURSIVE descendants AS (
+      SELECT _category_id AS id
+      UNION
+      SELECT c.id
+      FROM public.categories c
+      JOIN descendants d ON c.parent_id = d.id
+    )
+    SELECT 1 FROM descendants WHERE id = _reassign_to
+  ) THEN
+    RAISE EXCEPTION 'Products cannot be reassigned to the deleted category or its subcategories';
+  END IF;
+
+  UPDATE public.products
+  SET category_id = _reassign_to
+  WHERE category_id = _category_id;
+
+  UPDATE public.categories
+  SET parent_id = _reassign_to
+  WHERE parent_id = _category_id;
+
+  DELETE FROM public.categories
+  WHERE id = _category_id;
+END;
+$$;
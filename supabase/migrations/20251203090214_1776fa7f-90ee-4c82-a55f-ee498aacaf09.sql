@@ -0,0 +1,398 @@
+-- Storage locations inside warehouses: zone > aisle > rack > bin
+CREATE TYPE public.location_type AS ENUM ('zone', 'aisle', 'rack', 'bin');
+
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT,
+  location_type location_type NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (warehouse_id, code)
+);
+
+CREATE INDEX locations_parent_id_idx ON public.locations(parent_id);
+
+CREATE TRIGGER locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- A location must sit in the same warehouse as its parent, one level below it
+CREATE OR REPLACE FUNCTION public.check_location_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.locations;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM public.locations WHERE id = NEW.parent_id;
+
+  IF _parent.warehouse_id <> NEW.warehouse_id THEN
+    RAISE EXCEPTION 'A location must be in the same warehouse as its parent'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.location_type <= _parent.location_type THEN
+    RAISE EXCEPTION 'A % cannot be placed inside a %', NEW.location_type, _parent.location_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER locations_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, warehouse_id, location_type ON public.locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_location_parent();
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view locations"
+  ON public.locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage locations"
+  ON public.locations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Carry a location on ledger rows and document lines
+ALTER TABLE public.stock_movements
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+-- Balances per product, warehouse and location. Stock posted without a
+-- location has a NULL location_id; sum over locations for warehouse totals.
+DROP VIEW public.low_stock_items;
+DROP VIEW public.stock_balances;
+
+CREATE VIEW public.stock_balances AS
+SELECT
+  product_id,
+  warehouse_id,
+  location_id,
+  SUM(quantity) as quantity
+FROM public.stock_movements
+GROUP BY product_id, warehouse_id, location_id;
+
+CREATE VIEW public.low_stock_items
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS product_id,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  p.reorder_level,
+  w.id AS warehouse_id,
+  w.name AS warehouse_name,
+  COALESCE(b.quantity, 0) AS quantity
+FROM public.products p
+CROSS JOIN public.warehouses w
+LEFT JOIN (
+  SELECT product_id, warehouse_id, SUM(quantity) AS quantity
+  FROM public.stock_balances
+  GROUP BY product_id, warehouse_id
+) b
+  ON b.product_id = p.id
+  AND b.warehouse_id = w.id
+WHERE p.is_active
+  AND w.is_active
+  AND p.reorder_level > 0
+  AND COALESCE(b.quantity, 0) <= p.reorder_level;
+
+CREATE OR REPLACE VIEW public.stock_ledger
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  m.warehouse_id,
+  m.movement_type,
+  m.reference_id,
+  m.quantity,
+  m.balance_after,
+  m.notes,
+  m.created_by,
+  m.created_at,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.name AS warehouse_name,
+  COALESCE(r.reference, d.reference, t.reference, a.reference) AS document_reference,
+  pr.full_name AS created_by_name,
+  pr.email AS created_by_email,
+  m.location_id,
+  l.code AS location_code
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+LEFT JOIN public.locations l ON l.id = m.location_id
+LEFT JOIN public.receipts r
+  ON m.movement_type = 'receipt' AND r.id = m.reference_id
+LEFT JOIN public.deliveries d
+  ON m.movement_type = 'delivery' AND d.id = m.reference_id
+LEFT JOIN public.transfers t
+  ON m.movement_type = 'transfer' AND t.id = m.reference_id
+LEFT JOIN public.adjustments a
+  ON m.movement_type = 'adjustment' AND a.id = m.reference_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Warehouse deactivation checks the warehouse total per product
+CREATE OR REPLACE FUNCTION public.prevent_warehouse_deactivation_with_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active AND EXISTS (
+    SELECT 1
+    FROM public.stock_balances
+    WHERE warehouse_id = NEW.id
+    GROUP BY product_id
+    HAVING SUM(quantity) <> 0
+  ) THEN
+    RAISE EXCEPTION 'Warehouse % still holds stock. Transfer or adjust it to zero before deactivating.', NEW.code
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Posting now takes an optional location. balance_after stays the
+-- warehouse-level running balance; an outbound posting from a specific
+-- location must also not take that location below zero.
+DROP FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL,
+  _location_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+  _location_balance NUMERIC(10,2);
+  _product_name TEXT;
+  _location public.locations;
+BEGIN
+  IF _location_id IS NOT NULL THEN
+    SELECT * INTO _location FROM public.locations WHERE id = _location_id;
+
+    IF NOT FOUND OR _location.warehouse_id <> _warehouse_id THEN
+      RAISE EXCEPTION 'Location does not belong to the warehouse being posted to';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  IF _quantity < 0 AND _balance < 0 THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      _product_name, _balance - _quantity, -_quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _quantity < 0 AND _location_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _location_balance
+    FROM public.stock_movements
+    WHERE product_id = _product_id
+      AND location_id = _location_id;
+
+    IF _location_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in %: % available, % requested',
+        _product_name, _location.code, _location_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, location_id, movement_type, reference_id,
+    quantity, balance_after, notes, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _location_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Receipts put stock into the bin chosen on each line
+CREATE OR REPLACE FUNCTION public.validate_receipt(_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _posted NUMERIC(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT id, product_id, quantity, received_quantity, location_id
+    FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+    ORDER BY product_id, id
+  LOOP
+    _posted := COALESCE(NULLIF(_line.received_quantity, 0), _line.quantity);
+
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _receipt.warehouse_id,
+      'receipt',
+      _receipt_id,
+      _posted,
+      'Receipt ' || _receipt.reference,
+      _line.location_id
+    );
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+END;
+$$;
+
+-- Deliveries take stock from the bin chosen on each line
+CREATE OR REPLACE FUNCTION public.validate_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Any shortfall raises and rolls back every posting made so far.
+  FOR _line IN
+    SELECT id, product_id, quantity, location_id
+    FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+    ORDER BY product_id, id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _delivery.warehouse_id,
+      'delivery',
+      _delivery_id,
+      -_line.quantity,
+      'Delivery ' || _delivery.reference,
+      _line.location_id
+    );
+
+    UPDATE public.delivery_lines
+    SET delivered_quantity = _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+END;
+$$;
@@ -0,0 +1,294 @@
+-- Lot tracking: products flagged as lot-tracked are received into named
+-- lots with an optional expiry date, and every ledger row carries its lot
+ALTER TABLE public.products
+  ADD COLUMN is_lot_tracked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  lot_number TEXT NOT NULL,
+  expiry_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, lot_number)
+);
+
+ALTER TABLE public.lots ENABLE ROW LEVEL SECURITY;
+
+-- Lots are created by validate_receipt; clients only read them
+CREATE POLICY "Authenticated users can view lots"
+  ON public.lots FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN lot_number TEXT,
+  ADD COLUMN expiry_date DATE;
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id) ON DELETE RESTRICT;
+
+CREATE INDEX stock_movements_lot_id_idx ON public.stock_movements(lot_id);
+
+-- Balances per product, warehouse and lot
+CREATE VIEW public.lot_balances
+WITH (security_invoker = true) AS
+SELECT
+  l.id AS lot_id,
+  l.product_id,
+  l.lot_number,
+  l.expiry_date,
+  m.warehouse_id,
+  w.name AS warehouse_name,
+  SUM(m.quantity) AS quantity
+FROM public.lots l
+JOIN public.stock_movements m ON m.lot_id = l.id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+GROUP BY l.id, l.product_id, l.lot_number, l.expiry_date, m.warehouse_id, w.name;
+
+CREATE OR REPLACE VIEW public.stock_ledger
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  m.warehouse_id,
+  m.movement_type,
+  m.reference_id,
+  m.quantity,
+  m.balance_after,
+  m.notes,
+  m.created_by,
+  m.created_at,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.name AS warehouse_name,
+  COALESCE(r.reference, d.reference, t.reference, a.reference) AS document_reference,
+  pr.full_name AS created_by_name,
+  pr.email AS created_by_email,
+  m.location_id,
+  l.code AS location_code,
+  m.lot_id,
+  lt.lot_number
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+LEFT JOIN public.locations l ON l.id = m.location_id
+LEFT JOIN public.lots lt ON lt.id = m.lot_id
+LEFT JOIN public.receipts r
+  ON m.movement_type = 'receipt' AND r.id = m.reference_id
+LEFT JOIN public.deliveries d
+  ON m.movement_type = 'delivery' AND d.id = m.reference_id
+LEFT JOIN public.transfers t
+  ON m.movement_type = 'transfer' AND t.id = m.reference_id
+LEFT JOIN public.adjustments a
+  ON m.movement_type = 'adjustment' AND a.id = m.reference_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Posting takes an optional lot. An outbound posting from a specific lot
+-- must not take that lot below zero in the warehouse.
+DROP FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+  _location_balance NUMERIC(10,2);
+  _lot_balance NUMERIC(10,2);
+  _product_name TEXT;
+  _location public.locations;
+  _lot public.lots;
+BEGIN
+  IF _location_id IS NOT NULL THEN
+    SELECT * INTO _location FROM public.locations WHERE id = _location_id;
+
+    IF NOT FOUND OR _location.warehouse_id <> _warehouse_id THEN
+      RAISE EXCEPTION 'Location does not belong to the warehouse being posted to';
+    END IF;
+  END IF;
+
+  IF _lot_id IS NOT NULL THEN
+    SELECT * INTO _lot FROM public.lots WHERE id = _lot_id;
+
+    IF NOT FOUND OR _lot.product_id <> _product_id THEN
+      RAISE EXCEPTION 'Lot does not belong to the product being posted';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  IF _quantity < 0 AND _balance < 0 THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      _product_name, _balance - _quantity, -_quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _quantity < 0 AND _location_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _location_balance
+    FROM public.stock_movements
+    WHERE product_id = _product_id
+      AND location_id = _location_id;
+
+    IF _location_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in %: % available, % requested',
+        _product_name, _location.code, _location_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF _quantity < 0 AND _lot_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _lot_balance
+    FROM public.stock_movements
+    WHERE warehouse_id = _warehouse_id
+      AND lot_id = _lot_id;
+
+    IF _lot_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in lot %: % available, % requested',
+        _product_name, _lot.lot_number, _lot_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, location_id, lot_id, movement_type, reference_id,
+    quantity, balance_after, notes, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _location_id, _lot_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Receipts of lot-tracked products need a lot number on every line. The
+-- lot is created on first receipt; later receipts into the same lot must
+-- agree on its expiry date.
+CREATE OR REPLACE FUNCTION public.validate_receipt(_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _posted NUMERIC(10,2);
+  _lot public.lots;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT rl.id, rl.product_id, rl.quantity, rl.received_quantity, rl.location_id,
+      NULLIF(btrim(rl.lot_number), '') AS lot_number, rl.expiry_date,
+      p.name AS product_name, p.is_lot_tracked
+    FROM public.receipt_lines rl
+    JOIN public.products p ON p.id = rl.product_id
+    WHERE rl.receipt_id = _receipt_id
+    ORDER BY rl.product_id, rl.id
+  LOOP
+    _posted := COALESCE(NULLIF(_line.received_quantity, 0), _line.quantity);
+    _lot := NULL;
+
+    IF _line.is_lot_tracked THEN
+      IF _line.lot_number IS NULL THEN
+        RAISE EXCEPTION '% is lot-tracked; enter a lot number on its receipt line', _line.product_name;
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number, expiry_date)
+      VALUES (_line.product_id, _line.lot_number, _line.expiry_date)
+      ON CONFLICT (product_id, lot_number) DO NOTHING;
+
+      SELECT * INTO _lot
+      FROM public.lots
+      WHERE product_id = _line.product_id
+        AND lot_number = _line.lot_number;
+
+      IF _lot.expiry_date IS DISTINCT FROM _line.expiry_date AND _line.expiry_date IS NOT NULL THEN
+        IF _lot.expiry_date IS NOT NULL THEN
+          RAISE EXCEPTION 'Lot % of % already expires on %', _lot.lot_number, _line.product_name, _lot.expiry_date;
+        END IF;
+
+        UPDATE public.lots SET expiry_date = _line.expiry_date WHERE id = _lot.id;
+      END IF;
+    END IF;
+
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _receipt.warehouse_id,
+      'receipt',
+      _receipt_id,
+      _posted,
+      'Receipt ' || _receipt.reference,
+      _line.location_id,
+      _lot.id
+    );
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+END;
+$$;
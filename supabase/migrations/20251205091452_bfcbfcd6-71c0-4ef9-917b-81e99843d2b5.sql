@@ -0,0 +1,79 @@
+-- Deliveries of lot-tracked products pick from a specific lot
+ALTER TABLE public.delivery_lines
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Any shortfall raises and rolls back every posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      p.name AS product_name, p.is_lot_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _delivery.warehouse_id,
+      'delivery',
+      _delivery_id,
+      -_line.quantity,
+      'Delivery ' || _delivery.reference,
+      _line.location_id,
+      _line.lot_id
+    );
+
+    UPDATE public.delivery_lines
+    SET delivered_quantity = _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+END;
+$$;
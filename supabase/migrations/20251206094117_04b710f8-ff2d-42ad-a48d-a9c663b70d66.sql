@@ -0,0 +1,477 @@
+-- Serial tracking: every unit of a serial-tracked product has its own
+-- serial, posted to the ledger as a movement of one unit
+ALTER TABLE public.products
+  ADD COLUMN is_serial_tracked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.serials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  serial_number TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, serial_number)
+);
+
+ALTER TABLE public.serials ENABLE ROW LEVEL SECURITY;
+
+-- Serials are created by validate_receipt; clients only read them
+CREATE POLICY "Authenticated users can view serials"
+  ON public.serials FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN serial_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN serial_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN serial_id UUID REFERENCES public.serials(id) ON DELETE RESTRICT;
+
+CREATE INDEX stock_movements_serial_id_idx ON public.stock_movements(serial_id);
+
+CREATE OR REPLACE VIEW public.stock_ledger
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  m.warehouse_id,
+  m.movement_type,
+  m.reference_id,
+  m.quantity,
+  m.balance_after,
+  m.notes,
+  m.created_by,
+  m.created_at,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.name AS warehouse_name,
+  COALESCE(r.reference, d.reference, t.reference, a.reference) AS document_reference,
+  pr.full_name AS created_by_name,
+  pr.email AS created_by_email,
+  m.location_id,
+  l.code AS location_code,
+  m.lot_id,
+  lt.lot_number,
+  m.serial_id,
+  s.serial_number
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+LEFT JOIN public.locations l ON l.id = m.location_id
+LEFT JOIN public.lots lt ON lt.id = m.lot_id
+LEFT JOIN public.serials s ON s.id = m.serial_id
+LEFT JOIN public.receipts r
+  ON m.movement_type = 'receipt' AND r.id = m.reference_id
+LEFT JOIN public.deliveries d
+  ON m.movement_type = 'delivery' AND d.id = m.reference_id
+LEFT JOIN public.transfers t
+  ON m.movement_type = 'transfer' AND t.id = m.reference_id
+LEFT JOIN public.adjustments a
+  ON m.movement_type = 'adjustment' AND a.id = m.reference_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Posting takes an optional serial. A serial can be in stock at most once,
+-- and can only leave the warehouse it is in.
+DROP FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL,
+  _serial_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+  _location_balance NUMERIC(10,2);
+  _lot_balance NUMERIC(10,2);
+  _product_name TEXT;
+  _location public.locations;
+  _lot public.lots;
+  _serial public.serials;
+BEGIN
+  IF _location_id IS NOT NULL THEN
+    SELECT * INTO _location FROM public.locations WHERE id = _location_id;
+
+    IF NOT FOUND OR _location.warehouse_id <> _warehouse_id THEN
+      RAISE EXCEPTION 'Location does not belong to the warehouse being posted to';
+    END IF;
+  END IF;
+
+  IF _lot_id IS NOT NULL THEN
+    SELECT * INTO _lot FROM public.lots WHERE id = _lot_id;
+
+    IF NOT FOUND OR _lot.product_id <> _product_id THEN
+      RAISE EXCEPTION 'Lot does not belong to the product being posted';
+    END IF;
+  END IF;
+
+  IF _serial_id IS NOT NULL THEN
+    SELECT * INTO _serial FROM public.serials WHERE id = _serial_id;
+
+    IF NOT FOUND OR _serial.product_id <> _product_id THEN
+      RAISE EXCEPTION 'Serial does not belong to the product being posted';
+    END IF;
+
+    IF abs(_quantity) <> 1 THEN
+      RAISE EXCEPTION 'A serial is posted one unit at a time';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  IF _quantity < 0 AND _balance < 0 THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      _product_name, _balance - _quantity, -_quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _quantity < 0 AND _location_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _location_balance
+    FROM public.stock_movements
+    WHERE product_id = _product_id
+      AND location_id = _location_id;
+
+    IF _location_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in %: % available, % requested',
+        _product_name, _location.code, _location_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF _quantity < 0 AND _lot_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _lot_balance
+    FROM public.stock_movements
+    WHERE warehouse_id = _warehouse_id
+      AND lot_id = _lot_id;
+
+    IF _lot_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in lot %: % available, % requested',
+        _product_name, _lot.lot_number, _lot_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF _serial_id IS NOT NULL THEN
+    -- Serial movements of one product are serialized by the advisory lock
+    -- only per warehouse, so lock the serial row itself as well
+    PERFORM 1 FROM public.serials WHERE id = _serial_id FOR UPDATE;
+
+    IF _quantity > 0 AND (
+      SELECT COALESCE(SUM(quantity), 0) FROM public.stock_movements WHERE serial_id = _serial_id
+    ) > 0 THEN
+      RAISE EXCEPTION 'Serial % is already in stock', _serial.serial_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _quantity < 0 AND (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM public.stock_movements
+      WHERE serial_id = _serial_id
+        AND warehouse_id = _warehouse_id
+        AND (_location_id IS NULL OR location_id = _location_id)
+    ) < 1 THEN
+      RAISE EXCEPTION 'Serial % is not in stock here', _serial.serial_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, location_id, lot_id, serial_id, movement_type, reference_id,
+    quantity, balance_after, notes, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _location_id, _lot_id, _serial_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Trimmed, non-empty serials from a document line
+CREATE OR REPLACE FUNCTION public.clean_serial_numbers(_serial_numbers TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT btrim(s)), '{}')
+  FROM unnest(_serial_numbers) AS s
+  WHERE btrim(s) <> '';
+$$;
+
+-- Serial-tracked lines must list exactly one serial per unit received;
+-- each serial is posted as its own movement.
+CREATE OR REPLACE FUNCTION public.validate_receipt(_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _posted NUMERIC(10,2);
+  _lot public.lots;
+  _serials TEXT[];
+  _serial_number TEXT;
+  _serial_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT rl.id, rl.product_id, rl.quantity, rl.received_quantity, rl.location_id,
+      NULLIF(btrim(rl.lot_number), '') AS lot_number, rl.expiry_date,
+      public.clean_serial_numbers(rl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.receipt_lines rl
+    JOIN public.products p ON p.id = rl.product_id
+    WHERE rl.receipt_id = _receipt_id
+    ORDER BY rl.product_id, rl.id
+  LOOP
+    _posted := COALESCE(NULLIF(_line.received_quantity, 0), _line.quantity);
+    _lot := NULL;
+
+    IF _line.is_lot_tracked THEN
+      IF _line.lot_number IS NULL THEN
+        RAISE EXCEPTION '% is lot-tracked; enter a lot number on its receipt line', _line.product_name;
+      END IF;
+
+      INSERT INTO public.lots (product_id, lot_number, expiry_date)
+      VALUES (_line.product_id, _line.lot_number, _line.expiry_date)
+      ON CONFLICT (product_id, lot_number) DO NOTHING;
+
+      SELECT * INTO _lot
+      FROM public.lots
+      WHERE product_id = _line.product_id
+        AND lot_number = _line.lot_number;
+
+      IF _lot.expiry_date IS DISTINCT FROM _line.expiry_date AND _line.expiry_date IS NOT NULL THEN
+        IF _lot.expiry_date IS NOT NULL THEN
+          RAISE EXCEPTION 'Lot % of % already expires on %', _lot.lot_number, _line.product_name, _lot.expiry_date;
+        END IF;
+
+        UPDATE public.lots SET expiry_date = _line.expiry_date WHERE id = _lot.id;
+      END IF;
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      _serials := _line.serial_numbers;
+
+      IF COALESCE(array_length(_serials, 1), 0) <> _posted THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials entered for % units received',
+          _line.product_name, COALESCE(array_length(_serials, 1), 0), _posted;
+      END IF;
+
+      FOREACH _serial_number IN ARRAY _serials LOOP
+        INSERT INTO public.serials (product_id, serial_number)
+        VALUES (_line.product_id, _serial_number)
+        ON CONFLICT (product_id, serial_number) DO NOTHING;
+
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _receipt.warehouse_id,
+          'receipt',
+          _receipt_id,
+          1,
+          'Receipt ' || _receipt.reference,
+          _line.location_id,
+          _lot.id,
+          _serial_id
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.post_stock_movement(
+        _line.product_id,
+        _receipt.warehouse_id,
+        'receipt',
+        _receipt_id,
+        _posted,
+        'Receipt ' || _receipt.reference,
+        _line.location_id,
+        _lot.id
+      );
+    END IF;
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+END;
+$$;
+
+-- Serial-tracked delivery lines name exactly which serials leave
+CREATE OR REPLACE FUNCTION public.validate_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Any shortfall raises and rolls back every posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      public.clean_serial_numbers(dl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units delivered',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -1,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id,
+          _serial_id
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.post_stock_movement(
+        _line.product_id,
+        _delivery.warehouse_id,
+        'delivery',
+        _delivery_id,
+        -_line.quantity,
+        'Delivery ' || _delivery.reference,
+        _line.location_id,
+        _line.lot_id
+      );
+    END IF;
+
+    UPDATE public.delivery_lines
+    SET delivered_quantity = _line.quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+END;
+$$;
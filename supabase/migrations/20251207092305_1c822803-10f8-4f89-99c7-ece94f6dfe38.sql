@@ -0,0 +1,107 @@
+-- Supplier master data, replacing the free-text receipts.supplier_name
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  payment_terms TEXT,
+  lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Names that differ only in case, spacing or punctuation are the same supplier.
+-- Letters and digits of every script count; a name made only of punctuation
+-- is kept as typed rather than reduced to nothing.
+CREATE OR REPLACE FUNCTION public.normalize_party_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(btrim(regexp_replace(lower(_name), '[^[:alnum:]]+', ' ', 'g')), ''),
+    lower(btrim(_name))
+  );
+$$;
+
+CREATE UNIQUE INDEX suppliers_normalized_name_key
+  ON public.suppliers (public.normalize_party_name(name));
+
+CREATE TRIGGER suppliers_updated_at
+  BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suppliers"
+  ON public.suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers and admins can insert suppliers"
+  ON public.suppliers FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Managers and admins can update suppliers"
+  ON public.suppliers FOR UPDATE
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Admins can delete suppliers"
+  ON public.suppliers FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.receipts
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT;
+
+-- One-time de-duplication of existing supplier names. Spellings that
+-- normalize to the same key become one supplier, named after the spelling
+-- used most often (earliest first on a tie).
+INSERT INTO public.suppliers (name)
+SELECT DISTINCT ON (key) name
+FROM (
+  SELECT
+    public.normalize_party_name(supplier_name) AS key,
+    btrim(supplier_name) AS name,
+    COUNT(*) AS uses,
+    MIN(created_at) AS first_used
+  FROM public.receipts
+  WHERE public.normalize_party_name(supplier_name) <> ''
+  GROUP BY 1, 2
+) spellings
+ORDER BY key, uses DESC, first_used;
+
+UPDATE public.receipts r
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE public.normalize_party_name(s.name) = public.normalize_party_name(r.supplier_name);
+
+-- Receipts whose supplier name was blank keep a placeholder supplier
+INSERT INTO public.suppliers (name)
+SELECT 'Unknown supplier'
+WHERE EXISTS (SELECT 1 FROM public.receipts WHERE supplier_id IS NULL)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.receipts
+SET supplier_id = (
+  SELECT id FROM public.suppliers
+  WHERE public.normalize_party_name(name) = 'unknown supplier'
+)
+WHERE supplier_id IS NULL;
+
+ALTER TABLE public.receipts
+  ALTER COLUMN supplier_id SET NOT NULL,
+  DROP COLUMN supplier_name;
+
+CREATE INDEX receipts_supplier_id_idx ON public.receipts(supplier_id);
@@ -0,0 +1,124 @@
+-- Customer master data, replacing the free-text deliveries.customer_name
+CREATE TABLE public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX customers_normalized_name_key
+  ON public.customers (public.normalize_party_name(name));
+
+CREATE TRIGGER customers_updated_at
+  BEFORE UPDATE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE public.customer_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL DEFAULT 'Main',
+  address TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one default shipping address per customer
+CREATE UNIQUE INDEX customer_addresses_default_key
+  ON public.customer_addresses (customer_id)
+  WHERE is_default;
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_addresses ENABLE ROW LEVEL SECURITY;
+
+-- Anyone building a delivery can add a new customer on the fly;
+-- editing and removing customers is for managers and admins
+CREATE POLICY "Authenticated users can view customers"
+  ON public.customers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create customers"
+  ON public.customers FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers and admins can update customers"
+  ON public.customers FOR UPDATE
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Admins can delete customers"
+  ON public.customers FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view customer addresses"
+  ON public.customer_addresses FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create customer addresses"
+  ON public.customer_addresses FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers and admins can update customer addresses"
+  ON public.customer_addresses FOR UPDATE
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Managers and admins can delete customer addresses"
+  ON public.customer_addresses FOR DELETE
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+ALTER TABLE public.deliveries
+  ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE RESTRICT,
+  ADD COLUMN shipping_address_id UUID REFERENCES public.customer_addresses(id) ON DELETE SET NULL;
+
+-- One-time de-duplication of existing customer names, as for suppliers
+INSERT INTO public.customers (name)
+SELECT DISTINCT ON (key) name
+FROM (
+  SELECT
+    public.normalize_party_name(customer_name) AS key,
+    btrim(customer_name) AS name,
+    COUNT(*) AS uses,
+    MIN(created_at) AS first_used
+  FROM public.deliveries
+  WHERE public.normalize_party_name(customer_name) <> ''
+  GROUP BY 1, 2
+) spellings
+ORDER BY key, uses DESC, first_used;
+
+UPDATE public.deliveries d
+SET customer_id = c.id
+FROM public.customers c
+WHERE public.normalize_party_name(c.name) = public.normalize_party_name(d.customer_name);
+
+INSERT INTO public.customers (name)
+SELECT 'Unknown customer'
+WHERE EXISTS (SELECT 1 FROM public.deliveries WHERE customer_id IS NULL)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.deliveries
+SET customer_id = (
+  SELECT id FROM public.customers
+  WHERE public.normalize_party_name(name) = 'unknown customer'
+)
+WHERE customer_id IS NULL;
+
+ALTER TABLE public.deliveries
+  ALTER COLUMN customer_id SET NOT NULL,
+  DROP COLUMN customer_name;
+
+CREATE INDEX deliveries_customer_id_idx ON public.deliveries(customer_id);
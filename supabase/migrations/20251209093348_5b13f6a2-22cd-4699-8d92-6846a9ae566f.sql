@@ -0,0 +1,200 @@
+-- Purchase orders: agreed lines with a supplier that generate receipts
+CREATE TYPE public.purchase_order_status AS ENUM (
+  'draft', 'confirmed', 'partially_received', 'received', 'canceled'
+);
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT NOT NULL,
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE RESTRICT NOT NULL,
+  status purchase_order_status NOT NULL DEFAULT 'draft',
+  expected_date DATE,
+  confirmed_date TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for purchase orders (same rules as receipts)
+CREATE POLICY "Authenticated users can view purchase orders"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can create purchase orders"
+  ON public.purchase_orders FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Staff can update own purchase orders or managers/admins can update all"
+  ON public.purchase_orders FOR UPDATE
+  USING (
+    created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Authenticated users can view purchase order lines"
+  ON public.purchase_order_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert purchase order lines"
+  ON public.purchase_order_lines FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update purchase order lines"
+  ON public.purchase_order_lines FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete purchase order lines"
+  ON public.purchase_order_lines FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Receipts remember the PO and PO line they were generated from
+ALTER TABLE public.receipts
+  ADD COLUMN purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.receipt_lines
+  ADD COLUMN purchase_order_line_id UUID REFERENCES public.purchase_order_lines(id) ON DELETE RESTRICT;
+
+CREATE INDEX receipts_purchase_order_id_idx ON public.receipts(purchase_order_id);
+CREATE INDEX receipt_lines_purchase_order_line_id_idx ON public.receipt_lines(purchase_order_line_id);
+
+-- Ordered versus received per PO line; only validated receipts count
+CREATE VIEW public.purchase_order_line_progress
+WITH (security_invoker = true) AS
+SELECT
+  pol.id AS purchase_order_line_id,
+  pol.purchase_order_id,
+  pol.product_id,
+  pol.quantity AS ordered_quantity,
+  pol.unit_price,
+  COALESCE(SUM(rl.received_quantity) FILTER (WHERE r.status = 'done'), 0) AS received_quantity
+FROM public.purchase_order_lines pol
+LEFT JOIN public.receipt_lines rl ON rl.purchase_order_line_id = pol.id
+LEFT JOIN public.receipts r ON r.id = rl.receipt_id
+GROUP BY pol.id;
+
+-- Confirming a PO creates a draft receipt with one line per PO line
+CREATE OR REPLACE FUNCTION public.confirm_purchase_order(_purchase_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _receipt_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to confirm this purchase order';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Purchase order % is already %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = _purchase_order_id
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % has no lines', _order.reference;
+  END IF;
+
+  INSERT INTO public.receipts (
+    reference, supplier_id, warehouse_id, purchase_order_id, scheduled_date, status, created_by
+  )
+  VALUES (
+    'RCP-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+    _order.supplier_id,
+    _order.warehouse_id,
+    _order.id,
+    _order.expected_date,
+    'draft',
+    auth.uid()
+  )
+  RETURNING id INTO _receipt_id;
+
+  INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+  SELECT _receipt_id, product_id, quantity, id
+  FROM public.purchase_order_lines
+  WHERE purchase_order_id = _purchase_order_id
+  ORDER BY created_at, id;
+
+  UPDATE public.purchase_orders
+  SET status = 'confirmed',
+      confirmed_date = now()
+  WHERE id = _purchase_order_id;
+
+  RETURN _receipt_id;
+END;
+$$;
+
+-- A validated receipt moves its PO to partially received or received
+CREATE OR REPLACE FUNCTION public.update_purchase_order_receipt_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.purchase_order_id IS NULL OR NEW.status <> 'done' OR OLD.status = 'done' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.purchase_order_line_progress
+      WHERE purchase_order_id = NEW.purchase_order_id
+        AND received_quantity < ordered_quantity
+    ) THEN 'partially_received'::purchase_order_status
+    ELSE 'received'::purchase_order_status
+  END
+  WHERE id = NEW.purchase_order_id
+    AND status IN ('confirmed', 'partially_received');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER receipts_update_purchase_order_status
+  AFTER UPDATE OF status ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_purchase_order_receipt_status();
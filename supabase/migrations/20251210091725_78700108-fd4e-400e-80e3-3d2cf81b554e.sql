@@ -0,0 +1,297 @@
+-- Sales orders: what a customer ordered, shipped through generated deliveries
+CREATE TYPE public.sales_order_status AS ENUM (
+  'draft', 'confirmed', 'partially_delivered', 'delivered', 'canceled'
+);
+
+CREATE TABLE public.sales_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE RESTRICT NOT NULL,
+  shipping_address_id UUID REFERENCES public.customer_addresses(id) ON DELETE SET NULL,
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE RESTRICT NOT NULL,
+  status sales_order_status NOT NULL DEFAULT 'draft',
+  requested_ship_date DATE,
+  confirmed_date TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.sales_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sales_order_id UUID REFERENCES public.sales_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sales_orders_customer_id_idx ON public.sales_orders(customer_id);
+
+CREATE TRIGGER sales_orders_updated_at
+  BEFORE UPDATE ON public.sales_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.sales_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for sales orders (same rules as deliveries)
+CREATE POLICY "Authenticated users can view sales orders"
+  ON public.sales_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can create sales orders"
+  ON public.sales_orders FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Staff can update own sales orders or managers/admins can update all"
+  ON public.sales_orders FOR UPDATE
+  USING (
+    created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE POLICY "Authenticated users can view sales order lines"
+  ON public.sales_order_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert sales order lines"
+  ON public.sales_order_lines FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update sales order lines"
+  ON public.sales_order_lines FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete sales order lines"
+  ON public.sales_order_lines FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Deliveries remember the sales order and order line they ship
+ALTER TABLE public.deliveries
+  ADD COLUMN sales_order_id UUID REFERENCES public.sales_orders(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.delivery_lines
+  ADD COLUMN sales_order_line_id UUID REFERENCES public.sales_order_lines(id) ON DELETE RESTRICT;
+
+CREATE INDEX deliveries_sales_order_id_idx ON public.deliveries(sales_order_id);
+CREATE INDEX delivery_lines_sales_order_line_id_idx ON public.delivery_lines(sales_order_line_id);
+
+-- Ordered, shipped and still-unplanned quantities per order line.
+-- Open (not done, not canceled) deliveries count as planned, done ones as delivered.
+CREATE VIEW public.sales_order_line_progress
+WITH (security_invoker = true) AS
+SELECT
+  sol.id AS sales_order_line_id,
+  sol.sales_order_id,
+  sol.product_id,
+  sol.quantity AS ordered_quantity,
+  sol.unit_price,
+  COALESCE(SUM(dl.delivered_quantity) FILTER (WHERE d.status = 'done'), 0) AS delivered_quantity,
+  COALESCE(SUM(dl.quantity) FILTER (WHERE d.status NOT IN ('done', 'canceled')), 0) AS planned_quantity
+FROM public.sales_order_lines sol
+LEFT JOIN public.delivery_lines dl ON dl.sales_order_line_id = sol.id
+LEFT JOIN public.deliveries d ON d.id = dl.delivery_id
+GROUP BY sol.id;
+
+-- Generates a ready delivery for everything on the order that is neither shipped
+-- nor on an open delivery. A ready delivery holds its stock, so the quantities are
+-- checked against on-hand stock minus what other ready deliveries already hold.
+CREATE OR REPLACE FUNCTION public.create_sales_order_delivery(_sales_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.sales_orders;
+  _delivery_id UUID;
+  _need RECORD;
+  _on_hand NUMERIC;
+  _reserved NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _sales_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to ship this sales order';
+  END IF;
+
+  IF _order.status NOT IN ('confirmed', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Sales order % is %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.sales_order_line_progress
+    WHERE sales_order_id = _sales_order_id
+      AND ordered_quantity > delivered_quantity + planned_quantity
+  ) THEN
+    RAISE EXCEPTION 'Everything on sales order % is already shipped or on a delivery', _order.reference;
+  END IF;
+
+  -- Products are locked in the same order as stock postings take their locks
+  FOR _need IN
+    SELECT pr.product_id, p.name AS product_name,
+      SUM(pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity) AS quantity
+    FROM public.sales_order_line_progress pr
+    JOIN public.products p ON p.id = pr.product_id
+    WHERE pr.sales_order_id = _sales_order_id
+      AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+    GROUP BY pr.product_id, p.name
+    ORDER BY pr.product_id
+  LOOP
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_need.product_id::text || ':' || _order.warehouse_id::text, 0)
+    );
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_movements
+    WHERE product_id = _need.product_id
+      AND warehouse_id = _order.warehouse_id;
+
+    SELECT COALESCE(SUM(dl.quantity), 0) INTO _reserved
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE d.status = 'ready'
+      AND d.warehouse_id = _order.warehouse_id
+      AND dl.product_id = _need.product_id;
+
+    IF _on_hand - _reserved < _need.quantity THEN
+      RAISE EXCEPTION 'Cannot reserve % of %: only % available (% on hand, % reserved)',
+        _need.quantity, _need.product_name, GREATEST(_on_hand - _reserved, 0), _on_hand, _reserved;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.deliveries (
+    reference, customer_id, shipping_address_id, warehouse_id, sales_order_id,
+    scheduled_date, status, created_by
+  )
+  VALUES (
+    'DEL-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+    _order.customer_id,
+    _order.shipping_address_id,
+    _order.warehouse_id,
+    _order.id,
+    _order.requested_ship_date,
+    'ready',
+    auth.uid()
+  )
+  RETURNING id INTO _delivery_id;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+  SELECT _delivery_id, pr.product_id,
+    pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity,
+    pr.sales_order_line_id
+  FROM public.sales_order_line_progress pr
+  JOIN public.sales_order_lines sol ON sol.id = pr.sales_order_line_id
+  WHERE pr.sales_order_id = _sales_order_id
+    AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+  ORDER BY sol.created_at, sol.id;
+
+  RETURN _delivery_id;
+END;
+$$;
+
+-- Confirming a sales order reserves its stock on a generated delivery
+CREATE OR REPLACE FUNCTION public.confirm_sales_order(_sales_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.sales_orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _sales_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to confirm this sales order';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Sales order % is already %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = _sales_order_id
+  ) THEN
+    RAISE EXCEPTION 'Sales order % has no lines', _order.reference;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = 'confirmed',
+      confirmed_date = now()
+  WHERE id = _sales_order_id;
+
+  RETURN public.create_sales_order_delivery(_sales_order_id);
+END;
+$$;
+
+-- A validated delivery moves its order to partially delivered or delivered
+CREATE OR REPLACE FUNCTION public.update_sales_order_delivery_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sales_order_id IS NULL OR NEW.status <> 'done' OR OLD.status = 'done' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.sales_order_line_progress
+      WHERE sales_order_id = NEW.sales_order_id
+        AND delivered_quantity < ordered_quantity
+    ) THEN 'partially_delivered'::sales_order_status
+    ELSE 'delivered'::sales_order_status
+  END
+  WHERE id = NEW.sales_order_id
+    AND status IN ('confirmed', 'partially_delivered');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deliveries_update_sales_order_status
+  AFTER UPDATE OF status ON public.deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_sales_order_delivery_status();
@@ -0,0 +1,193 @@
+-- Backorder receipts: the remainder of an under-received receipt, linked to it
+ALTER TABLE public.receipts
+  ADD COLUMN backorder_of_id UUID REFERENCES public.receipts(id) ON DELETE RESTRICT;
+
+CREATE INDEX receipts_backorder_of_id_idx ON public.receipts(backorder_of_id);
+
+-- Validation now honours received quantities line by line. A receipt with no
+-- received quantities entered is still received in full, as before; once any
+-- line records a received quantity, every line posts exactly what it records.
+-- With _create_backorder the shortfall goes onto a new draft receipt.
+DROP FUNCTION public.validate_receipt(UUID);
+
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  _receipt_id UUID,
+  _create_backorder BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _partial BOOLEAN;
+  _posted NUMERIC(10,2);
+  _lot public.lots;
+  _serials TEXT[];
+  _serial_number TEXT;
+  _serial_id UUID;
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  _partial := EXISTS (
+    SELECT 1 FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity > 0
+  );
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT rl.id, rl.product_id, rl.quantity, rl.received_quantity, rl.location_id,
+      NULLIF(btrim(rl.lot_number), '') AS lot_number, rl.expiry_date,
+      public.clean_serial_numbers(rl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.receipt_lines rl
+    JOIN public.products p ON p.id = rl.product_id
+    WHERE rl.receipt_id = _receipt_id
+    ORDER BY rl.product_id, rl.id
+  LOOP
+    _posted := CASE WHEN _partial THEN COALESCE(_line.received_quantity, 0) ELSE _line.quantity END;
+    _lot := NULL;
+
+    IF _posted > 0 THEN
+      IF _line.is_lot_tracked THEN
+        IF _line.lot_number IS NULL THEN
+          RAISE EXCEPTION '% is lot-tracked; enter a lot number on its receipt line', _line.product_name;
+        END IF;
+
+        INSERT INTO public.lots (product_id, lot_number, expiry_date)
+        VALUES (_line.product_id, _line.lot_number, _line.expiry_date)
+        ON CONFLICT (product_id, lot_number) DO NOTHING;
+
+        SELECT * INTO _lot
+        FROM public.lots
+        WHERE product_id = _line.product_id
+          AND lot_number = _line.lot_number;
+
+        IF _lot.expiry_date IS DISTINCT FROM _line.expiry_date AND _line.expiry_date IS NOT NULL THEN
+          IF _lot.expiry_date IS NOT NULL THEN
+            RAISE EXCEPTION 'Lot % of % already expires on %', _lot.lot_number, _line.product_name, _lot.expiry_date;
+          END IF;
+
+          UPDATE public.lots SET expiry_date = _line.expiry_date WHERE id = _lot.id;
+        END IF;
+      END IF;
+
+      IF _line.is_serial_tracked THEN
+        _serials := _line.serial_numbers;
+
+        IF COALESCE(array_length(_serials, 1), 0) <> _posted THEN
+          RAISE EXCEPTION '% is serial-tracked; % distinct serials entered for % units received',
+            _line.product_name, COALESCE(array_length(_serials, 1), 0), _posted;
+        END IF;
+
+        FOREACH _serial_number IN ARRAY _serials LOOP
+          INSERT INTO public.serials (product_id, serial_number)
+          VALUES (_line.product_id, _serial_number)
+          ON CONFLICT (product_id, serial_number) DO NOTHING;
+
+          SELECT id INTO _serial_id
+          FROM public.serials
+          WHERE product_id = _line.product_id
+            AND serial_number = _serial_number;
+
+          PERFORM public.post_stock_movement(
+            _line.product_id,
+            _receipt.warehouse_id,
+            'receipt',
+            _receipt_id,
+            1,
+            'Receipt ' || _receipt.reference,
+            _line.location_id,
+            _lot.id,
+            _serial_id
+          );
+        END LOOP;
+      ELSE
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _receipt.warehouse_id,
+          'receipt',
+          _receipt_id,
+          _posted,
+          'Receipt ' || _receipt.reference,
+          _line.location_id,
+          _lot.id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+
+  IF _create_backorder AND EXISTS (
+    SELECT 1 FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity < quantity
+  ) THEN
+    INSERT INTO public.receipts (
+      reference, supplier_id, warehouse_id, purchase_order_id, backorder_of_id,
+      scheduled_date, status, created_by
+    )
+    VALUES (
+      'RCP-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+      _receipt.supplier_id,
+      _receipt.warehouse_id,
+      _receipt.purchase_order_id,
+      _receipt_id,
+      _receipt.scheduled_date,
+      'draft',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.receipt_lines (
+      receipt_id, product_id, quantity, location_id, purchase_order_line_id
+    )
+    SELECT _backorder_id, product_id, quantity - received_quantity, location_id, purchase_order_line_id
+    FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity < quantity
+    ORDER BY created_at, id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
@@ -0,0 +1,251 @@
+-- Backorder deliveries: what could not ship, linked to the delivery it came from
+ALTER TABLE public.deliveries
+  ADD COLUMN backorder_of_id UUID REFERENCES public.deliveries(id) ON DELETE RESTRICT;
+
+CREATE INDEX deliveries_backorder_of_id_idx ON public.deliveries(backorder_of_id);
+
+-- With _ship_available each line ships what is in stock (within its bin and lot,
+-- if set) and the rest goes onto a new delivery waiting for stock. Without it a
+-- shortage still raises and nothing is posted, as before.
+DROP FUNCTION public.validate_delivery(UUID);
+
+CREATE OR REPLACE FUNCTION public.validate_delivery(
+  _delivery_id UUID,
+  _ship_available BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+  _shipped NUMERIC(10,2);
+  _shipped_serials TEXT[];
+  _available NUMERIC(10,2);
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Unless shipping what is available, any shortfall raises and rolls back every
+  -- posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      public.clean_serial_numbers(dl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF _ship_available THEN
+        IF COALESCE(array_length(_line.serial_numbers, 1), 0) > _line.quantity THEN
+          RAISE EXCEPTION '% is serial-tracked; % serials named for % units ordered',
+            _line.product_name, array_length(_line.serial_numbers, 1), _line.quantity;
+        END IF;
+      ELSIF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units delivered',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      _shipped_serials := '{}';
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        -- When shipping what is available, serials that are not here stay on the backorder
+        IF _ship_available AND (
+          SELECT COALESCE(SUM(quantity), 0)
+          FROM public.stock_movements
+          WHERE serial_id = _serial_id
+            AND warehouse_id = _delivery.warehouse_id
+            AND (_line.location_id IS NULL OR location_id = _line.location_id)
+            AND (_line.lot_id IS NULL OR lot_id = _line.lot_id)
+        ) < 1 THEN
+          CONTINUE;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -1,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id,
+          _serial_id
+        );
+
+        _shipped_serials := _shipped_serials || _serial_number;
+      END LOOP;
+
+      _shipped := COALESCE(array_length(_shipped_serials, 1), 0);
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped,
+          serial_numbers = _shipped_serials
+      WHERE id = _line.id;
+    ELSE
+      _shipped := _line.quantity;
+
+      IF _ship_available THEN
+        PERFORM pg_advisory_xact_lock(
+          hashtextextended(_line.product_id::text || ':' || _delivery.warehouse_id::text, 0)
+        );
+
+        SELECT GREATEST(COALESCE(SUM(quantity), 0), 0) INTO _available
+        FROM public.stock_movements
+        WHERE product_id = _line.product_id
+          AND warehouse_id = _delivery.warehouse_id
+          AND (_line.location_id IS NULL OR location_id = _line.location_id)
+          AND (_line.lot_id IS NULL OR lot_id = _line.lot_id);
+
+        -- A bin or lot pick is also capped by the warehouse total
+        SELECT LEAST(_available, GREATEST(COALESCE(SUM(quantity), 0), 0)) INTO _available
+        FROM public.stock_movements
+        WHERE product_id = _line.product_id
+          AND warehouse_id = _delivery.warehouse_id;
+
+        _shipped := LEAST(_line.quantity, _available);
+      END IF;
+
+      IF _shipped > 0 THEN
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -_shipped,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id
+        );
+      END IF;
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped
+      WHERE id = _line.id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity > 0
+  ) THEN
+    RAISE EXCEPTION 'Nothing on delivery % is in stock yet', _delivery.reference;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+
+  -- Whatever did not ship waits for stock on a backorder; lots, bins and serials
+  -- are picked again once stock arrives
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity < quantity
+  ) THEN
+    INSERT INTO public.deliveries (
+      reference, customer_id, shipping_address_id, warehouse_id, sales_order_id,
+      backorder_of_id, scheduled_date, status, created_by
+    )
+    VALUES (
+      'DEL-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+      _delivery.customer_id,
+      _delivery.shipping_address_id,
+      _delivery.warehouse_id,
+      _delivery.sales_order_id,
+      _delivery_id,
+      _delivery.scheduled_date,
+      'waiting',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+    SELECT _backorder_id, dl.product_id, dl.quantity - dl.delivered_quantity, dl.sales_order_line_id
+    FROM public.delivery_lines dl
+    WHERE dl.delivery_id = _delivery_id
+      AND dl.delivered_quantity < dl.quantity
+    ORDER BY dl.created_at, dl.id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
+
+-- What customers are still owed: open lines on backorder deliveries
+CREATE VIEW public.delivery_backorders
+WITH (security_invoker = true) AS
+SELECT
+  dl.id AS delivery_line_id,
+  d.id AS delivery_id,
+  d.reference,
+  d.status,
+  d.backorder_of_id,
+  orig.reference AS backorder_of_reference,
+  d.sales_order_id,
+  d.customer_id,
+  c.name AS customer_name,
+  d.warehouse_id,
+  w.name AS warehouse_name,
+  dl.product_id,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  dl.quantity,
+  d.created_at
+FROM public.deliveries d
+JOIN public.delivery_lines dl ON dl.delivery_id = d.id
+JOIN public.deliveries orig ON orig.id = d.backorder_of_id
+JOIN public.customers c ON c.id = d.customer_id
+JOIN public.warehouses w ON w.id = d.warehouse_id
+JOIN public.products p ON p.id = dl.product_id
+WHERE d.status NOT IN ('done', 'canceled');
@@ -0,0 +1,399 @@
+-- Ready deliveries reserve their quantities. Available to promise is what is on
+-- hand in a warehouse less what ready deliveries there have reserved; open
+-- receipts are shown as incoming but cannot be promised until received.
+CREATE VIEW public.stock_availability
+WITH (security_invoker = true) AS
+WITH on_hand AS (
+  SELECT product_id, warehouse_id, SUM(quantity) AS quantity
+  FROM public.stock_movements
+  GROUP BY product_id, warehouse_id
+),
+reserved AS (
+  SELECT dl.product_id, d.warehouse_id, SUM(dl.quantity) AS quantity
+  FROM public.delivery_lines dl
+  JOIN public.deliveries d ON d.id = dl.delivery_id
+  WHERE d.status = 'ready'
+  GROUP BY dl.product_id, d.warehouse_id
+),
+incoming AS (
+  SELECT rl.product_id, r.warehouse_id, SUM(rl.quantity) AS quantity
+  FROM public.receipt_lines rl
+  JOIN public.receipts r ON r.id = rl.receipt_id
+  WHERE r.status NOT IN ('done', 'canceled')
+  GROUP BY rl.product_id, r.warehouse_id
+)
+SELECT
+  p.id AS product_id,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.id AS warehouse_id,
+  w.name AS warehouse_name,
+  COALESCE(oh.quantity, 0) AS on_hand,
+  COALESCE(rs.quantity, 0) AS reserved,
+  COALESCE(inc.quantity, 0) AS incoming,
+  COALESCE(oh.quantity, 0) - COALESCE(rs.quantity, 0) AS available_to_promise
+FROM public.products p
+CROSS JOIN public.warehouses w
+LEFT JOIN on_hand oh ON oh.product_id = p.id AND oh.warehouse_id = w.id
+LEFT JOIN reserved rs ON rs.product_id = p.id AND rs.warehouse_id = w.id
+LEFT JOIN incoming inc ON inc.product_id = p.id AND inc.warehouse_id = w.id
+WHERE COALESCE(oh.quantity, 0) <> 0
+  OR COALESCE(rs.quantity, 0) <> 0
+  OR COALESCE(inc.quantity, 0) <> 0;
+
+-- On hand less what ready deliveries have reserved, optionally leaving one
+-- delivery's own reservation out. Callers hold the product's posting lock.
+CREATE OR REPLACE FUNCTION public.available_to_promise(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _exclude_delivery_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COALESCE(SUM(quantity), 0)
+     FROM public.stock_movements
+     WHERE product_id = _product_id
+       AND warehouse_id = _warehouse_id)
+    -
+    (SELECT COALESCE(SUM(dl.quantity), 0)
+     FROM public.delivery_lines dl
+     JOIN public.deliveries d ON d.id = dl.delivery_id
+     WHERE d.status = 'ready'
+       AND d.warehouse_id = _warehouse_id
+       AND dl.product_id = _product_id
+       AND d.id IS DISTINCT FROM _exclude_delivery_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.available_to_promise(UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- A delivery can only become ready, or move warehouse while ready, if every
+-- product on it is available to promise there
+CREATE OR REPLACE FUNCTION public.reserve_delivery_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _need RECORD;
+  _available NUMERIC;
+BEGIN
+  IF NEW.status <> 'ready' OR (
+    TG_OP = 'UPDATE' AND OLD.status = 'ready' AND OLD.warehouse_id = NEW.warehouse_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Products are locked in the same order as stock postings take their locks
+  FOR _need IN
+    SELECT dl.product_id, p.name AS product_name, SUM(dl.quantity) AS quantity
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = NEW.id
+    GROUP BY dl.product_id, p.name
+    ORDER BY dl.product_id
+  LOOP
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_need.product_id::text || ':' || NEW.warehouse_id::text, 0)
+    );
+
+    _available := public.available_to_promise(_need.product_id, NEW.warehouse_id, NEW.id);
+
+    IF _available < _need.quantity THEN
+      RAISE EXCEPTION 'Cannot reserve % of %: only % available to promise',
+        _need.quantity, _need.product_name, GREATEST(_available, 0);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deliveries_reserve_stock
+  BEFORE INSERT OR UPDATE OF status, warehouse_id ON public.deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reserve_delivery_stock();
+
+-- Lines added to, or raised on, a ready delivery reserve as they are saved
+CREATE OR REPLACE FUNCTION public.reserve_delivery_line_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _product_name TEXT;
+  _need NUMERIC;
+  _available NUMERIC;
+BEGIN
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = NEW.delivery_id;
+
+  IF _delivery.status IS DISTINCT FROM 'ready' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The old quantity of an edited line is already reserved
+  _need := NEW.quantity;
+  IF TG_OP = 'UPDATE' AND OLD.product_id = NEW.product_id AND OLD.delivery_id = NEW.delivery_id THEN
+    _need := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF _need <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(NEW.product_id::text || ':' || _delivery.warehouse_id::text, 0)
+  );
+
+  _available := public.available_to_promise(NEW.product_id, _delivery.warehouse_id);
+
+  IF _available < _need THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = NEW.product_id;
+
+    RAISE EXCEPTION 'Cannot reserve % more of % on ready delivery %: only % available to promise',
+      _need, _product_name, _delivery.reference, GREATEST(_available, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER delivery_lines_reserve_stock
+  BEFORE INSERT OR UPDATE OF product_id, quantity, delivery_id ON public.delivery_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reserve_delivery_line_stock();
+
+-- Validation can no longer ship stock that other ready deliveries have reserved.
+-- Shipping what is available caps each line at what is available to promise.
+CREATE OR REPLACE FUNCTION public.validate_delivery(
+  _delivery_id UUID,
+  _ship_available BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+  _shipped NUMERIC(10,2);
+  _shipped_serials TEXT[];
+  _available NUMERIC(10,2);
+  _promisable NUMERIC;
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Unless shipping what is available, any shortfall raises and rolls back every
+  -- posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      public.clean_serial_numbers(dl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_line.product_id::text || ':' || _delivery.warehouse_id::text, 0)
+    );
+
+    -- Earlier lines of this delivery have already left on-hand, so this is
+    -- what remains for this line once other deliveries' reservations are kept
+    _promisable := public.available_to_promise(_line.product_id, _delivery.warehouse_id, _delivery_id);
+
+    IF NOT _ship_available AND _promisable < _line.quantity THEN
+      RAISE EXCEPTION 'Cannot ship % of %: only % available to promise',
+        _line.quantity, _line.product_name, GREATEST(_promisable, 0);
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF _ship_available THEN
+        IF COALESCE(array_length(_line.serial_numbers, 1), 0) > _line.quantity THEN
+          RAISE EXCEPTION '% is serial-tracked; % serials named for % units ordered',
+            _line.product_name, array_length(_line.serial_numbers, 1), _line.quantity;
+        END IF;
+      ELSIF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units delivered',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      _shipped_serials := '{}';
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        -- When shipping what is available, serials that are not here, or that
+        -- would eat into other reservations, stay on the backorder
+        IF _ship_available AND (
+          COALESCE(array_length(_shipped_serials, 1), 0) + 1 > _promisable OR (
+            SELECT COALESCE(SUM(quantity), 0)
+            FROM public.stock_movements
+            WHERE serial_id = _serial_id
+              AND warehouse_id = _delivery.warehouse_id
+              AND (_line.location_id IS NULL OR location_id = _line.location_id)
+              AND (_line.lot_id IS NULL OR lot_id = _line.lot_id)
+          ) < 1
+        ) THEN
+          CONTINUE;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -1,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id,
+          _serial_id
+        );
+
+        _shipped_serials := _shipped_serials || _serial_number;
+      END LOOP;
+
+      _shipped := COALESCE(array_length(_shipped_serials, 1), 0);
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped,
+          serial_numbers = _shipped_serials
+      WHERE id = _line.id;
+    ELSE
+      _shipped := _line.quantity;
+
+      IF _ship_available THEN
+        SELECT GREATEST(COALESCE(SUM(quantity), 0), 0) INTO _available
+        FROM public.stock_movements
+        WHERE product_id = _line.product_id
+          AND warehouse_id = _delivery.warehouse_id
+          AND (_line.location_id IS NULL OR location_id = _line.location_id)
+          AND (_line.lot_id IS NULL OR lot_id = _line.lot_id);
+
+        -- A bin or lot pick is also capped by what the warehouse can promise
+        _available := LEAST(_available, GREATEST(_promisable, 0));
+
+        _shipped := LEAST(_line.quantity, _available);
+      END IF;
+
+      IF _shipped > 0 THEN
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -_shipped,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id
+        );
+      END IF;
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped
+      WHERE id = _line.id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity > 0
+  ) THEN
+    RAISE EXCEPTION 'Nothing on delivery % is in stock yet', _delivery.reference;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+
+  -- Whatever did not ship waits for stock on a backorder; lots, bins and serials
+  -- are picked again once stock arrives
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity < quantity
+  ) THEN
+    INSERT INTO public.deliveries (
+      reference, customer_id, shipping_address_id, warehouse_id, sales_order_id,
+      backorder_of_id, scheduled_date, status, created_by
+    )
+    VALUES (
+      'DEL-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+      _delivery.customer_id,
+      _delivery.shipping_address_id,
+      _delivery.warehouse_id,
+      _delivery.sales_order_id,
+      _delivery_id,
+      _delivery.scheduled_date,
+      'waiting',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+    SELECT _backorder_id, dl.product_id, dl.quantity - dl.delivered_quantity, dl.sales_order_line_id
+    FROM public.delivery_lines dl
+    WHERE dl.delivery_id = _delivery_id
+      AND dl.delivered_quantity < dl.quantity
+    ORDER BY dl.created_at, dl.id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
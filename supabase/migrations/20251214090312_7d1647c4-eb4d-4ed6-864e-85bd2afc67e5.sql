@@ -0,0 +1,803 @@
+-- Document references are numbered in the database: one counter per document
+-- type and warehouse, formatted with a prefix that can be changed in Settings.
+CREATE TYPE public.document_type AS ENUM (
+  'receipt',
+  'delivery',
+  'transfer',
+  'adjustment',
+  'purchase_order',
+  'sales_order'
+);
+
+-- {warehouse} in a prefix stands for the warehouse code. Warehouse codes can be
+-- edited, so a code may later be taken by another warehouse; counters are keyed
+-- by the rendered prefix (see 20251221113604) so that warehouse carries on the
+-- numbering instead of reusing references.
+CREATE TABLE public.document_numbering (
+  document_type document_type PRIMARY KEY,
+  prefix TEXT NOT NULL UNIQUE CHECK (position('{warehouse}' IN prefix) > 0),
+  padding INTEGER NOT NULL DEFAULT 5 CHECK (padding BETWEEN 1 AND 10),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.document_numbering (document_type, prefix) VALUES
+  ('receipt', '{warehouse}/IN/'),
+  ('delivery', '{warehouse}/OUT/'),
+  ('transfer', '{warehouse}/INT/'),
+  ('adjustment', '{warehouse}/ADJ/'),
+  ('purchase_order', '{warehouse}/PO/'),
+  ('sales_order', '{warehouse}/SO/');
+
+CREATE TRIGGER document_numbering_updated_at
+  BEFORE UPDATE ON public.document_numbering
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE public.document_sequences (
+  document_type document_type NOT NULL,
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE CASCADE NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, warehouse_id)
+);
+
+ALTER TABLE public.document_numbering ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document numbering (authenticated users can view, admins can modify)
+CREATE POLICY "Authenticated users can view document numbering"
+  ON public.document_numbering FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update document numbering"
+  ON public.document_numbering FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Counters are only advanced by next_document_reference
+CREATE POLICY "Authenticated users can view document sequences"
+  ON public.document_sequences FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Take the next number for a document type in a warehouse. The counter row stays
+-- locked until the transaction ends, so numbers are handed out in order and a
+-- rolled-back document gives its number back.
+CREATE OR REPLACE FUNCTION public.next_document_reference(
+  _document_type document_type,
+  _warehouse_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _numbering public.document_numbering;
+  _warehouse_code TEXT;
+  _number INTEGER;
+BEGIN
+  SELECT * INTO _numbering
+  FROM public.document_numbering
+  WHERE document_type = _document_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering is set up for % documents', _document_type;
+  END IF;
+
+  SELECT code INTO _warehouse_code
+  FROM public.warehouses
+  WHERE id = _warehouse_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Warehouse not found';
+  END IF;
+
+  INSERT INTO public.document_sequences (document_type, warehouse_id, last_number)
+  VALUES (_document_type, _warehouse_id, 1)
+  ON CONFLICT (document_type, warehouse_id)
+  DO UPDATE SET last_number = public.document_sequences.last_number + 1
+  RETURNING last_number INTO _number;
+
+  RETURN replace(_numbering.prefix, '{warehouse}', _warehouse_code)
+    || lpad(_number::text, _numbering.padding, '0');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_document_reference(document_type, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Every new document gets its reference here; whatever a client sends is replaced.
+-- Transfers are numbered in their source warehouse.
+CREATE OR REPLACE FUNCTION public.assign_document_reference()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _warehouse_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'transfers' THEN
+    _warehouse_id := NEW.source_warehouse_id;
+  ELSE
+    _warehouse_id := NEW.warehouse_id;
+  END IF;
+
+  NEW.reference := public.next_document_reference(TG_ARGV[0]::document_type, _warehouse_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER receipts_assign_reference
+  BEFORE INSERT ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('receipt');
+
+CREATE TRIGGER deliveries_assign_reference
+  BEFORE INSERT ON public.deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('delivery');
+
+CREATE TRIGGER transfers_assign_reference
+  BEFORE INSERT ON public.transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('transfer');
+
+CREATE TRIGGER adjustments_assign_reference
+  BEFORE INSERT ON public.adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('adjustment');
+
+CREATE TRIGGER purchase_orders_assign_reference
+  BEFORE INSERT ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('purchase_order');
+
+CREATE TRIGGER sales_orders_assign_reference
+  BEFORE INSERT ON public.sales_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_document_reference('sales_order');
+
+-- Clients no longer send a reference; the empty default is always replaced
+ALTER TABLE public.receipts ALTER COLUMN reference SET DEFAULT '';
+ALTER TABLE public.deliveries ALTER COLUMN reference SET DEFAULT '';
+ALTER TABLE public.transfers ALTER COLUMN reference SET DEFAULT '';
+ALTER TABLE public.adjustments ALTER COLUMN reference SET DEFAULT '';
+ALTER TABLE public.purchase_orders ALTER COLUMN reference SET DEFAULT '';
+ALTER TABLE public.sales_orders ALTER COLUMN reference SET DEFAULT '';
+
+-- Documents created by these functions take their reference from the trigger too
+
+CREATE OR REPLACE FUNCTION public.create_adjustment(
+  _warehouse_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _reason adjustment_reason,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _adjustment_id UUID;
+  _reference TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF _reason IN ('damage', 'theft') AND _quantity > 0 THEN
+    RAISE EXCEPTION 'A % adjustment must remove stock', _reason;
+  END IF;
+
+  IF _reason = 'found' AND _quantity < 0 THEN
+    RAISE EXCEPTION 'A found adjustment must add stock';
+  END IF;
+
+  IF NULLIF(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Adjustment notes are required';
+  END IF;
+
+  INSERT INTO public.adjustments (warehouse_id, product_id, quantity, reason, notes)
+  VALUES (_warehouse_id, _product_id, _quantity, _reason, _notes)
+  RETURNING id, reference INTO _adjustment_id, _reference;
+
+  PERFORM public.post_stock_movement(
+    _product_id,
+    _warehouse_id,
+    'adjustment',
+    _adjustment_id,
+    _quantity,
+    'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes
+  );
+
+  RETURN _adjustment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.confirm_purchase_order(_purchase_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _receipt_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to confirm this purchase order';
+  END IF;
+
+  IF _order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Purchase order % is already %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.purchase_order_lines WHERE purchase_order_id = _purchase_order_id
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % has no lines', _order.reference;
+  END IF;
+
+  INSERT INTO public.receipts (
+    supplier_id, warehouse_id, purchase_order_id, scheduled_date, status, created_by
+  )
+  VALUES (
+    _order.supplier_id,
+    _order.warehouse_id,
+    _order.id,
+    _order.expected_date,
+    'draft',
+    auth.uid()
+  )
+  RETURNING id INTO _receipt_id;
+
+  INSERT INTO public.receipt_lines (receipt_id, product_id, quantity, purchase_order_line_id)
+  SELECT _receipt_id, product_id, quantity, id
+  FROM public.purchase_order_lines
+  WHERE purchase_order_id = _purchase_order_id
+  ORDER BY created_at, id;
+
+  UPDATE public.purchase_orders
+  SET status = 'confirmed',
+      confirmed_date = now()
+  WHERE id = _purchase_order_id;
+
+  RETURN _receipt_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sales_order_delivery(_sales_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.sales_orders;
+  _delivery_id UUID;
+  _need RECORD;
+  _on_hand NUMERIC;
+  _reserved NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _sales_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to ship this sales order';
+  END IF;
+
+  IF _order.status NOT IN ('confirmed', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Sales order % is %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.sales_order_line_progress
+    WHERE sales_order_id = _sales_order_id
+      AND ordered_quantity > delivered_quantity + planned_quantity
+  ) THEN
+    RAISE EXCEPTION 'Everything on sales order % is already shipped or on a delivery', _order.reference;
+  END IF;
+
+  -- Products are locked in the same order as stock postings take their locks
+  FOR _need IN
+    SELECT pr.product_id, p.name AS product_name,
+      SUM(pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity) AS quantity
+    FROM public.sales_order_line_progress pr
+    JOIN public.products p ON p.id = pr.product_id
+    WHERE pr.sales_order_id = _sales_order_id
+      AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+    GROUP BY pr.product_id, p.name
+    ORDER BY pr.product_id
+  LOOP
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_need.product_id::text || ':' || _order.warehouse_id::text, 0)
+    );
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_movements
+    WHERE product_id = _need.product_id
+      AND warehouse_id = _order.warehouse_id;
+
+    SELECT COALESCE(SUM(dl.quantity), 0) INTO _reserved
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE d.status = 'ready'
+      AND d.warehouse_id = _order.warehouse_id
+      AND dl.product_id = _need.product_id;
+
+    IF _on_hand - _reserved < _need.quantity THEN
+      RAISE EXCEPTION 'Cannot reserve % of %: only % available (% on hand, % reserved)',
+        _need.quantity, _need.product_name, GREATEST(_on_hand - _reserved, 0), _on_hand, _reserved;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.deliveries (
+    customer_id, shipping_address_id, warehouse_id, sales_order_id,
+    scheduled_date, status, created_by
+  )
+  VALUES (
+    _order.customer_id,
+    _order.shipping_address_id,
+    _order.warehouse_id,
+    _order.id,
+    _order.requested_ship_date,
+    'ready',
+    auth.uid()
+  )
+  RETURNING id INTO _delivery_id;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+  SELECT _delivery_id, pr.product_id,
+    pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity,
+    pr.sales_order_line_id
+  FROM public.sales_order_line_progress pr
+  JOIN public.sales_order_lines sol ON sol.id = pr.sales_order_line_id
+  WHERE pr.sales_order_id = _sales_order_id
+    AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+  ORDER BY sol.created_at, sol.id;
+
+  RETURN _delivery_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_receipt(
+  _receipt_id UUID,
+  _create_backorder BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _line RECORD;
+  _partial BOOLEAN;
+  _posted NUMERIC(10,2);
+  _lot public.lots;
+  _serials TEXT[];
+  _serial_number TEXT;
+  _serial_id UUID;
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF NOT (
+    _receipt.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this receipt';
+  END IF;
+
+  IF _receipt.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Receipt % is already %', _receipt.reference, _receipt.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has no lines', _receipt.reference;
+  END IF;
+
+  _partial := EXISTS (
+    SELECT 1 FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity > 0
+  );
+
+  -- Lines are posted in product order so concurrent postings lock in the same order
+  FOR _line IN
+    SELECT rl.id, rl.product_id, rl.quantity, rl.received_quantity, rl.location_id,
+      NULLIF(btrim(rl.lot_number), '') AS lot_number, rl.expiry_date,
+      public.clean_serial_numbers(rl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.receipt_lines rl
+    JOIN public.products p ON p.id = rl.product_id
+    WHERE rl.receipt_id = _receipt_id
+    ORDER BY rl.product_id, rl.id
+  LOOP
+    _posted := CASE WHEN _partial THEN COALESCE(_line.received_quantity, 0) ELSE _line.quantity END;
+    _lot := NULL;
+
+    IF _posted > 0 THEN
+      IF _line.is_lot_tracked THEN
+        IF _line.lot_number IS NULL THEN
+          RAISE EXCEPTION '% is lot-tracked; enter a lot number on its receipt line', _line.product_name;
+        END IF;
+
+        INSERT INTO public.lots (product_id, lot_number, expiry_date)
+        VALUES (_line.product_id, _line.lot_number, _line.expiry_date)
+        ON CONFLICT (product_id, lot_number) DO NOTHING;
+
+        SELECT * INTO _lot
+        FROM public.lots
+        WHERE product_id = _line.product_id
+          AND lot_number = _line.lot_number;
+
+        IF _lot.expiry_date IS DISTINCT FROM _line.expiry_date AND _line.expiry_date IS NOT NULL THEN
+          IF _lot.expiry_date IS NOT NULL THEN
+            RAISE EXCEPTION 'Lot % of % already expires on %', _lot.lot_number, _line.product_name, _lot.expiry_date;
+          END IF;
+
+          UPDATE public.lots SET expiry_date = _line.expiry_date WHERE id = _lot.id;
+        END IF;
+      END IF;
+
+      IF _line.is_serial_tracked THEN
+        _serials := _line.serial_numbers;
+
+        IF COALESCE(array_length(_serials, 1), 0) <> _posted THEN
+          RAISE EXCEPTION '% is serial-tracked; % distinct serials entered for % units received',
+            _line.product_name, COALESCE(array_length(_serials, 1), 0), _posted;
+        END IF;
+
+        FOREACH _serial_number IN ARRAY _serials LOOP
+          INSERT INTO public.serials (product_id, serial_number)
+          VALUES (_line.product_id, _serial_number)
+          ON CONFLICT (product_id, serial_number) DO NOTHING;
+
+          SELECT id INTO _serial_id
+          FROM public.serials
+          WHERE product_id = _line.product_id
+            AND serial_number = _serial_number;
+
+          PERFORM public.post_stock_movement(
+            _line.product_id,
+            _receipt.warehouse_id,
+            'receipt',
+            _receipt_id,
+            1,
+            'Receipt ' || _receipt.reference,
+            _line.location_id,
+            _lot.id,
+            _serial_id
+          );
+        END LOOP;
+      ELSE
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _receipt.warehouse_id,
+          'receipt',
+          _receipt_id,
+          _posted,
+          'Receipt ' || _receipt.reference,
+          _line.location_id,
+          _lot.id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.receipt_lines
+    SET received_quantity = _posted
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _receipt_id;
+
+  IF _create_backorder AND EXISTS (
+    SELECT 1 FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity < quantity
+  ) THEN
+    INSERT INTO public.receipts (
+      supplier_id, warehouse_id, purchase_order_id, backorder_of_id,
+      scheduled_date, status, created_by
+    )
+    VALUES (
+      _receipt.supplier_id,
+      _receipt.warehouse_id,
+      _receipt.purchase_order_id,
+      _receipt_id,
+      _receipt.scheduled_date,
+      'draft',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.receipt_lines (
+      receipt_id, product_id, quantity, location_id, purchase_order_line_id
+    )
+    SELECT _backorder_id, product_id, quantity - received_quantity, location_id, purchase_order_line_id
+    FROM public.receipt_lines
+    WHERE receipt_id = _receipt_id
+      AND received_quantity < quantity
+    ORDER BY created_at, id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_delivery(
+  _delivery_id UUID,
+  _ship_available BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+  _shipped NUMERIC(10,2);
+  _shipped_serials TEXT[];
+  _available NUMERIC(10,2);
+  _promisable NUMERIC;
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Unless shipping what is available, any shortfall raises and rolls back every
+  -- posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      public.clean_serial_numbers(dl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_line.product_id::text || ':' || _delivery.warehouse_id::text, 0)
+    );
+
+    -- Earlier lines of this delivery have already left on-hand, so this is
+    -- what remains for this line once other deliveries' reservations are kept
+    _promisable := public.available_to_promise(_line.product_id, _delivery.warehouse_id, _delivery_id);
+
+    IF NOT _ship_available AND _promisable < _line.quantity THEN
+      RAISE EXCEPTION 'Cannot ship % of %: only % available to promise',
+        _line.quantity, _line.product_name, GREATEST(_promisable, 0);
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF _ship_available THEN
+        IF COALESCE(array_length(_line.serial_numbers, 1), 0) > _line.quantity THEN
+          RAISE EXCEPTION '% is serial-tracked; % serials named for % units ordered',
+            _line.product_name, array_length(_line.serial_numbers, 1), _line.quantity;
+        END IF;
+      ELSIF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units delivered',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      _shipped_serials := '{}';
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        -- When shipping what is available, serials that are not here, or that
+        -- would eat into other reservations, stay on the backorder
+        IF _ship_available AND (
+          COALESCE(array_length(_shipped_serials, 1), 0) + 1 > _promisable OR (
+            SELECT COALESCE(SUM(quantity), 0)
+            FROM public.stock_movements
+            WHERE serial_id = _serial_id
+              AND warehouse_id = _delivery.warehouse_id
+              AND (_line.location_id IS NULL OR location_id = _line.location_id)
+              AND (_line.lot_id IS NULL OR lot_id = _line.lot_id)
+          ) < 1
+        ) THEN
+          CONTINUE;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -1,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id,
+          _serial_id
+        );
+
+        _shipped_serials := _shipped_serials || _serial_number;
+      END LOOP;
+
+      _shipped := COALESCE(array_length(_shipped_serials, 1), 0);
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped,
+          serial_numbers = _shipped_serials
+      WHERE id = _line.id;
+    ELSE
+      _shipped := _line.quantity;
+
+      IF _ship_available THEN
+        SELECT GREATEST(COALESCE(SUM(quantity), 0), 0) INTO _available
+        FROM public.stock_movements
+        WHERE product_id = _line.product_id
+          AND warehouse_id = _delivery.warehouse_id
+          AND (_line.location_id IS NULL OR location_id = _line.location_id)
+          AND (_line.lot_id IS NULL OR lot_id = _line.lot_id);
+
+        -- A bin or lot pick is also capped by what the warehouse can promise
+        _available := LEAST(_available, GREATEST(_promisable, 0));
+
+        _shipped := LEAST(_line.quantity, _available);
+      END IF;
+
+      IF _shipped > 0 THEN
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -_shipped,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id
+        );
+      END IF;
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped
+      WHERE id = _line.id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity > 0
+  ) THEN
+    RAISE EXCEPTION 'Nothing on delivery % is in stock yet', _delivery.reference;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+
+  -- Whatever did not ship waits for stock on a backorder; lots, bins and serials
+  -- are picked again once stock arrives
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity < quantity
+  ) THEN
+    INSERT INTO public.deliveries (
+      customer_id, shipping_address_id, warehouse_id, sales_order_id,
+      backorder_of_id, scheduled_date, status, created_by
+    )
+    VALUES (
+      _delivery.customer_id,
+      _delivery.shipping_address_id,
+      _delivery.warehouse_id,
+      _delivery.sales_order_id,
+      _delivery_id,
+      _delivery.scheduled_date,
+      'waiting',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+    SELECT _backorder_id, dl.product_id, dl.quantity - dl.delivered_quantity, dl.sales_order_line_id
+    FROM public.delivery_lines dl
+    WHERE dl.delivery_id = _delivery_id
+      AND dl.delivered_quantity < dl.quantity
+    ORDER BY dl.created_at, dl.id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
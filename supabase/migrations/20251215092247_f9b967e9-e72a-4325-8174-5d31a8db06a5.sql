@@ -0,0 +1,75 @@
+-- Status workflow for receipts and deliveries. Draft, waiting and ready are open
+-- and may move to any status; done and canceled are final. Moving forward (to
+-- waiting, ready or done) needs lines, and done is only reached by validation,
+-- which posts the document's stock first. A new document starts open; documents
+-- created by validation or from an order get their lines right after.
+CREATE OR REPLACE FUNCTION public.check_stock_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _label TEXT;
+  _movement_type movement_type;
+  _has_lines BOOLEAN;
+BEGIN
+  IF TG_TABLE_NAME = 'receipts' THEN
+    _label := 'Receipt';
+    _movement_type := 'receipt';
+  ELSE
+    _label := 'Delivery';
+    _movement_type := 'delivery';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IN ('done', 'canceled') THEN
+      RAISE EXCEPTION 'A new % cannot start out %', lower(_label), NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION '% % is already %', _label, OLD.reference, OLD.status;
+  END IF;
+
+  IF NEW.status IN ('waiting', 'ready', 'done') THEN
+    IF TG_TABLE_NAME = 'receipts' THEN
+      _has_lines := EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = NEW.id);
+    ELSE
+      _has_lines := EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = NEW.id);
+    END IF;
+
+    IF NOT _has_lines THEN
+      RAISE EXCEPTION '% % has no lines', _label, NEW.reference;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE reference_id = NEW.id
+      AND movement_type = _movement_type
+  ) THEN
+    RAISE EXCEPTION '% % must be validated to be done', _label, NEW.reference;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER receipts_check_status
+  BEFORE INSERT OR UPDATE OF status ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_stock_status_transition();
+
+CREATE TRIGGER deliveries_check_status
+  BEFORE INSERT OR UPDATE OF status ON public.deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_stock_status_transition();
+
+CREATE INDEX stock_movements_reference_id_idx ON public.stock_movements(reference_id);
@@ -0,0 +1,522 @@
+-- Cancelling a done receipt or delivery never touches its ledger rows: each of
+-- its movements is offset by a reversing movement that points back at it
+ALTER TABLE public.stock_movements
+  ADD COLUMN reverses_movement_id UUID UNIQUE REFERENCES public.stock_movements(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.receipts
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ,
+  ADD COLUMN canceled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.deliveries
+  ADD COLUMN cancel_reason TEXT,
+  ADD COLUMN canceled_at TIMESTAMPTZ,
+  ADD COLUMN canceled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE VIEW public.stock_ledger
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  m.warehouse_id,
+  m.movement_type,
+  m.reference_id,
+  m.quantity,
+  m.balance_after,
+  m.notes,
+  m.created_by,
+  m.created_at,
+  p.name AS product_name,
+  p.sku,
+  p.unit_of_measure,
+  w.name AS warehouse_name,
+  COALESCE(r.reference, d.reference, t.reference, a.reference) AS document_reference,
+  pr.full_name AS created_by_name,
+  pr.email AS created_by_email,
+  m.location_id,
+  l.code AS location_code,
+  m.lot_id,
+  lt.lot_number,
+  m.serial_id,
+  s.serial_number,
+  m.reverses_movement_id
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+JOIN public.warehouses w ON w.id = m.warehouse_id
+LEFT JOIN public.locations l ON l.id = m.location_id
+LEFT JOIN public.lots lt ON lt.id = m.lot_id
+LEFT JOIN public.serials s ON s.id = m.serial_id
+LEFT JOIN public.receipts r
+  ON m.movement_type = 'receipt' AND r.id = m.reference_id
+LEFT JOIN public.deliveries d
+  ON m.movement_type = 'delivery' AND d.id = m.reference_id
+LEFT JOIN public.transfers t
+  ON m.movement_type = 'transfer' AND t.id = m.reference_id
+LEFT JOIN public.adjustments a
+  ON m.movement_type = 'adjustment' AND a.id = m.reference_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Posting takes the movement being reversed, if any
+DROP FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.post_stock_movement(
+  _product_id UUID,
+  _warehouse_id UUID,
+  _movement_type movement_type,
+  _reference_id UUID,
+  _quantity NUMERIC,
+  _notes TEXT DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL,
+  _serial_id UUID DEFAULT NULL,
+  _reverses_movement_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance NUMERIC(10,2);
+  _location_balance NUMERIC(10,2);
+  _lot_balance NUMERIC(10,2);
+  _product_name TEXT;
+  _location public.locations;
+  _lot public.lots;
+  _serial public.serials;
+BEGIN
+  IF _location_id IS NOT NULL THEN
+    SELECT * INTO _location FROM public.locations WHERE id = _location_id;
+
+    IF NOT FOUND OR _location.warehouse_id <> _warehouse_id THEN
+      RAISE EXCEPTION 'Location does not belong to the warehouse being posted to';
+    END IF;
+  END IF;
+
+  IF _lot_id IS NOT NULL THEN
+    SELECT * INTO _lot FROM public.lots WHERE id = _lot_id;
+
+    IF NOT FOUND OR _lot.product_id <> _product_id THEN
+      RAISE EXCEPTION 'Lot does not belong to the product being posted';
+    END IF;
+  END IF;
+
+  IF _serial_id IS NOT NULL THEN
+    SELECT * INTO _serial FROM public.serials WHERE id = _serial_id;
+
+    IF NOT FOUND OR _serial.product_id <> _product_id THEN
+      RAISE EXCEPTION 'Serial does not belong to the product being posted';
+    END IF;
+
+    IF abs(_quantity) <> 1 THEN
+      RAISE EXCEPTION 'A serial is posted one unit at a time';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(_product_id::text || ':' || _warehouse_id::text, 0)
+  );
+
+  SELECT COALESCE(SUM(quantity), 0) + _quantity
+  INTO _balance
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+    AND warehouse_id = _warehouse_id;
+
+  IF _quantity < 0 AND _balance < 0 THEN
+    SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+    RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+      _product_name, _balance - _quantity, -_quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _quantity < 0 AND _location_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _location_balance
+    FROM public.stock_movements
+    WHERE product_id = _product_id
+      AND location_id = _location_id;
+
+    IF _location_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in %: % available, % requested',
+        _product_name, _location.code, _location_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF _quantity < 0 AND _lot_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(quantity), 0) + _quantity
+    INTO _lot_balance
+    FROM public.stock_movements
+    WHERE warehouse_id = _warehouse_id
+      AND lot_id = _lot_id;
+
+    IF _lot_balance < 0 THEN
+      SELECT name INTO _product_name FROM public.products WHERE id = _product_id;
+      RAISE EXCEPTION 'Insufficient stock for % in lot %: % available, % requested',
+        _product_name, _lot.lot_number, _lot_balance - _quantity, -_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF _serial_id IS NOT NULL THEN
+    -- Serial movements of one product are serialized by the advisory lock
+    -- only per warehouse, so lock the serial row itself as well
+    PERFORM 1 FROM public.serials WHERE id = _serial_id FOR UPDATE;
+
+    IF _quantity > 0 AND (
+      SELECT COALESCE(SUM(quantity), 0) FROM public.stock_movements WHERE serial_id = _serial_id
+    ) > 0 THEN
+      RAISE EXCEPTION 'Serial % is already in stock', _serial.serial_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _quantity < 0 AND (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM public.stock_movements
+      WHERE serial_id = _serial_id
+        AND warehouse_id = _warehouse_id
+        AND (_location_id IS NULL OR location_id = _location_id)
+    ) < 1 THEN
+      RAISE EXCEPTION 'Serial % is not in stock here', _serial.serial_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, warehouse_id, location_id, lot_id, serial_id, movement_type, reference_id,
+    quantity, balance_after, notes, reverses_movement_id, created_by
+  )
+  VALUES (
+    _product_id, _warehouse_id, _location_id, _lot_id, _serial_id, _movement_type, _reference_id,
+    _quantity, _balance, _notes, _reverses_movement_id, auth.uid()
+  );
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_movement(UUID, UUID, movement_type, UUID, NUMERIC, TEXT, UUID, UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- Post a reversing movement for every movement a document posted that has not
+-- been reversed yet. Products are locked in order, as validation locks them.
+CREATE OR REPLACE FUNCTION public.reverse_document_movements(
+  _movement_type movement_type,
+  _reference_id UUID,
+  _notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.stock_movements;
+BEGIN
+  FOR _movement IN
+    SELECT m.*
+    FROM public.stock_movements m
+    WHERE m.reference_id = _reference_id
+      AND m.movement_type = _movement_type
+      AND m.reverses_movement_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.stock_movements rv WHERE rv.reverses_movement_id = m.id
+      )
+    ORDER BY m.product_id, m.created_at, m.id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _movement.product_id,
+      _movement.warehouse_id,
+      _movement_type,
+      _reference_id,
+      -_movement.quantity,
+      _notes,
+      _movement.location_id,
+      _movement.lot_id,
+      _movement.serial_id,
+      _movement.id
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_document_movements(movement_type, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Cancel a done receipt: its stock comes back out of the warehouse. Fails if that
+-- stock has already left, or if ready deliveries have reserved it.
+CREATE OR REPLACE FUNCTION public.reverse_receipt(_receipt_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.receipts;
+  _product RECORD;
+  _available NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only managers can cancel a done receipt';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel a done receipt';
+  END IF;
+
+  SELECT * INTO _receipt
+  FROM public.receipts
+  WHERE id = _receipt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF _receipt.status <> 'done' THEN
+    RAISE EXCEPTION 'Receipt % is %, not done', _receipt.reference, _receipt.status;
+  END IF;
+
+  PERFORM public.reverse_document_movements(
+    'receipt',
+    _receipt_id,
+    'Cancel receipt ' || _receipt.reference || ': ' || btrim(_reason)
+  );
+
+  FOR _product IN
+    SELECT DISTINCT m.product_id, p.name AS product_name
+    FROM public.stock_movements m
+    JOIN public.products p ON p.id = m.product_id
+    WHERE m.reference_id = _receipt_id
+      AND m.movement_type = 'receipt'
+  LOOP
+    _available := public.available_to_promise(_product.product_id, _receipt.warehouse_id);
+
+    IF _available < 0 THEN
+      RAISE EXCEPTION 'Cannot cancel receipt %: ready deliveries have reserved % of % it received',
+        _receipt.reference, -_available, _product.product_name;
+    END IF;
+  END LOOP;
+
+  UPDATE public.receipts
+  SET status = 'canceled',
+      cancel_reason = btrim(_reason),
+      canceled_at = now(),
+      canceled_by = auth.uid()
+  WHERE id = _receipt_id;
+END;
+$$;
+
+-- Cancel a done delivery: what it shipped goes back to the bins, lots and
+-- serials it left from
+CREATE OR REPLACE FUNCTION public.reverse_delivery(_delivery_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only managers can cancel a done delivery';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel a done delivery';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF _delivery.status <> 'done' THEN
+    RAISE EXCEPTION 'Delivery % is %, not done', _delivery.reference, _delivery.status;
+  END IF;
+
+  PERFORM public.reverse_document_movements(
+    'delivery',
+    _delivery_id,
+    'Cancel delivery ' || _delivery.reference || ': ' || btrim(_reason)
+  );
+
+  UPDATE public.deliveries
+  SET status = 'canceled',
+      cancel_reason = btrim(_reason),
+      canceled_at = now(),
+      canceled_by = auth.uid()
+  WHERE id = _delivery_id;
+END;
+$$;
+
+-- Done and canceled stay final, except that a done document whose stock has
+-- been reversed may be canceled
+CREATE OR REPLACE FUNCTION public.check_stock_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _label TEXT;
+  _movement_type movement_type;
+  _has_lines BOOLEAN;
+BEGIN
+  IF TG_TABLE_NAME = 'receipts' THEN
+    _label := 'Receipt';
+    _movement_type := 'receipt';
+  ELSE
+    _label := 'Delivery';
+    _movement_type := 'delivery';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IN ('done', 'canceled') THEN
+      RAISE EXCEPTION 'A new % cannot start out %', lower(_label), NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- A done document is canceled only once every movement it posted is reversed
+  IF OLD.status = 'done' AND NEW.status = 'canceled' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.stock_movements m
+      WHERE m.reference_id = NEW.id
+        AND m.movement_type = _movement_type
+        AND m.reverses_movement_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements rv WHERE rv.reverses_movement_id = m.id
+        )
+    ) THEN
+      RAISE EXCEPTION '% % must have its stock reversed to be canceled', _label, NEW.reference;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION '% % is already %', _label, OLD.reference, OLD.status;
+  END IF;
+
+  IF NEW.status IN ('waiting', 'ready', 'done') THEN
+    IF TG_TABLE_NAME = 'receipts' THEN
+      _has_lines := EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = NEW.id);
+    ELSE
+      _has_lines := EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = NEW.id);
+    END IF;
+
+    IF NOT _has_lines THEN
+      RAISE EXCEPTION '% % has no lines', _label, NEW.reference;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE reference_id = NEW.id
+      AND movement_type = _movement_type
+  ) THEN
+    RAISE EXCEPTION '% % must be validated to be done', _label, NEW.reference;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Orders follow their receipts and deliveries back when a done one is canceled
+CREATE OR REPLACE FUNCTION public.update_purchase_order_receipt_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.purchase_order_id IS NULL
+    OR NEW.status = OLD.status
+    OR NOT (NEW.status = 'done' OR OLD.status = 'done') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1
+      FROM public.purchase_order_line_progress
+      WHERE purchase_order_id = NEW.purchase_order_id
+        AND received_quantity > 0
+    ) THEN 'confirmed'::purchase_order_status
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.purchase_order_line_progress
+      WHERE purchase_order_id = NEW.purchase_order_id
+        AND received_quantity < ordered_quantity
+    ) THEN 'partially_received'::purchase_order_status
+    ELSE 'received'::purchase_order_status
+  END
+  WHERE id = NEW.purchase_order_id
+    AND status IN ('confirmed', 'partially_received', 'received');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_sales_order_delivery_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sales_order_id IS NULL
+    OR NEW.status = OLD.status
+    OR NOT (NEW.status = 'done' OR OLD.status = 'done') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = CASE
+    WHEN NOT EXISTS (
+      SELECT 1
+      FROM public.sales_order_line_progress
+      WHERE sales_order_id = NEW.sales_order_id
+        AND delivered_quantity > 0
+    ) THEN 'confirmed'::sales_order_status
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.sales_order_line_progress
+      WHERE sales_order_id = NEW.sales_order_id
+        AND delivered_quantity < ordered_quantity
+    ) THEN 'partially_delivered'::sales_order_status
+    ELSE 'delivered'::sales_order_status
+  END
+  WHERE id = NEW.sales_order_id
+    AND status IN ('confirmed', 'partially_delivered', 'delivered');
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Transfer lines are fixed once the transfer leaves draft: the outbound side
+-- has been posted from them
+CREATE OR REPLACE FUNCTION public.check_transfer_line_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer_ids UUID[];
+  _transfer public.transfers;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _transfer_ids := ARRAY[NEW.transfer_id];
+  ELSIF TG_OP = 'UPDATE' THEN
+    _transfer_ids := ARRAY[OLD.transfer_id, NEW.transfer_id];
+  ELSE
+    _transfer_ids := ARRAY[OLD.transfer_id];
+  END IF;
+
+  FOR _transfer IN
+    SELECT * FROM public.transfers WHERE id = ANY (_transfer_ids)
+  LOOP
+    IF _transfer.status <> 'draft' THEN
+      RAISE EXCEPTION 'Transfer % is %; its lines can no longer change',
+        _transfer.reference, _transfer.status;
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transfer_lines_check_change
+  BEFORE INSERT OR UPDATE OR DELETE ON public.transfer_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transfer_line_change();
+
+-- The inbound side mirrors the outbound movements already in the ledger, so
+-- the destination receives exactly what left the source, lot and serial included
+CREATE OR REPLACE FUNCTION public.validate_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _movement public.stock_movements;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status = 'draft' THEN
+    PERFORM public.dispatch_transfer(_transfer_id);
+  END IF;
+
+  FOR _movement IN
+    SELECT m.*
+    FROM public.stock_movements m
+    WHERE m.reference_id = _transfer_id
+      AND m.movement_type = 'transfer'
+      AND m.warehouse_id = _transfer.source_warehouse_id
+      AND m.quantity < 0
+    ORDER BY m.product_id, m.created_at, m.id
+  LOOP
+    PERFORM public.post_stock_movement(
+      _movement.product_id,
+      _transfer.destination_warehouse_id,
+      'transfer',
+      _transfer_id,
+      -_movement.quantity,
+      'Transfer ' || _transfer.reference || ' in',
+      NULL,
+      _movement.lot_id,
+      _movement.serial_id
+    );
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Locations nest in a fixed order, zone > aisle > rack > bin: a zone sits at the
+-- top of its warehouse and every other location exactly one level below its parent
+CREATE OR REPLACE FUNCTION public.check_location_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.locations;
+  _levels location_type[] := enum_range(NULL::location_type);
+  _expected location_type;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.location_type <> OLD.location_type AND EXISTS (
+    SELECT 1 FROM public.locations WHERE parent_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A % that holds other locations cannot become a %', OLD.location_type, NEW.location_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.parent_id IS NULL THEN
+    IF NEW.location_type <> _levels[1] THEN
+      RAISE EXCEPTION 'A % must be placed inside a %', NEW.location_type,
+        _levels[array_position(_levels, NEW.location_type) - 1]
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM public.locations WHERE id = NEW.parent_id;
+
+  IF _parent.warehouse_id <> NEW.warehouse_id THEN
+    RAISE EXCEPTION 'A location must be in the same warehouse as its parent'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  _expected := _levels[array_position(_levels, _parent.location_type) + 1];
+
+  IF _expected IS NULL THEN
+    RAISE EXCEPTION 'A % cannot hold other locations', _parent.location_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.location_type <> _expected THEN
+    RAISE EXCEPTION 'A % cannot be placed inside a %', NEW.location_type, _parent.location_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,156 @@
+-- Transfers and adjustments of lot-tracked products name the lot they move, so
+-- lot balances stay in step with warehouse balances
+ALTER TABLE public.transfer_lines
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id) ON DELETE SET NULL;
+
+ALTER TABLE public.adjustments
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION public.dispatch_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Transfer % is already in transit', _transfer.reference;
+  END IF;
+
+  FOR _line IN
+    SELECT tl.product_id, tl.quantity, tl.lot_id, p.name AS product_name, p.is_lot_tracked
+    FROM public.transfer_lines tl
+    JOIN public.products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = _transfer_id
+    ORDER BY tl.product_id, tl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to move on its transfer line', _line.product_name;
+    END IF;
+
+    PERFORM public.post_stock_movement(
+      _line.product_id,
+      _transfer.source_warehouse_id,
+      'transfer',
+      _transfer_id,
+      -_line.quantity,
+      'Transfer ' || _transfer.reference || ' out',
+      NULL,
+      _line.lot_id
+    );
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'in_transit',
+      shipped_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+DROP FUNCTION public.create_adjustment(UUID, UUID, NUMERIC, adjustment_reason, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_adjustment(
+  _warehouse_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _reason adjustment_reason,
+  _notes TEXT DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _adjustment_id UUID;
+  _reference TEXT;
+  _product public.products;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF _reason IN ('damage', 'theft') AND _quantity > 0 THEN
+    RAISE EXCEPTION 'A % adjustment must remove stock', _reason;
+  END IF;
+
+  IF _reason = 'found' AND _quantity < 0 THEN
+    RAISE EXCEPTION 'A found adjustment must add stock';
+  END IF;
+
+  IF NULLIF(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Adjustment notes are required';
+  END IF;
+
+  SELECT * INTO _product FROM public.products WHERE id = _product_id;
+
+  IF _product.is_lot_tracked AND _lot_id IS NULL THEN
+    RAISE EXCEPTION '% is lot-tracked; choose the lot being adjusted', _product.name;
+  END IF;
+
+  INSERT INTO public.adjustments (warehouse_id, product_id, lot_id, quantity, reason, notes)
+  VALUES (_warehouse_id, _product_id, _lot_id, _quantity, _reason, _notes)
+  RETURNING id, reference INTO _adjustment_id, _reference;
+
+  PERFORM public.post_stock_movement(
+    _product_id,
+    _warehouse_id,
+    'adjustment',
+    _adjustment_id,
+    _quantity,
+    'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes,
+    NULL,
+    _lot_id
+  );
+
+  RETURN _adjustment_id;
+END;
+$$;
+
+-- Turning lot tracking on or off would leave stock on hand without a lot, or
+-- with lots nothing picks from any more, so it only changes while there is none
+CREATE OR REPLACE FUNCTION public.check_product_tracking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_lot_tracked IS NOT DISTINCT FROM OLD.is_lot_tracked THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.stock_movements
+    WHERE product_id = NEW.id
+    GROUP BY warehouse_id
+    HAVING SUM(quantity) <> 0
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.transfer_lines tl
+    JOIN public.transfers t ON t.id = tl.transfer_id
+    WHERE tl.product_id = NEW.id
+      AND t.status = 'in_transit'
+  ) THEN
+    RAISE EXCEPTION 'Lot tracking for % can only change while none of it is in stock', NEW.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_check_tracking
+  BEFORE UPDATE OF is_lot_tracked ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_product_tracking_change();
@@ -0,0 +1,245 @@
+-- Transfers and adjustments of serial-tracked products name one serial per
+-- unit, and each unit is posted with its serial so its location stays current
+ALTER TABLE public.transfer_lines
+  ADD COLUMN serial_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.adjustments
+  ADD COLUMN serial_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION public.dispatch_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Transfer % is already in transit', _transfer.reference;
+  END IF;
+
+  FOR _line IN
+    SELECT tl.product_id, tl.quantity, tl.lot_id,
+      public.clean_serial_numbers(tl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.transfer_lines tl
+    JOIN public.products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = _transfer_id
+    ORDER BY tl.product_id, tl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to move on its transfer line', _line.product_name;
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units transferred',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _transfer.source_warehouse_id,
+          'transfer',
+          _transfer_id,
+          -1,
+          'Transfer ' || _transfer.reference || ' out',
+          NULL,
+          _line.lot_id,
+          _serial_id
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.post_stock_movement(
+        _line.product_id,
+        _transfer.source_warehouse_id,
+        'transfer',
+        _transfer_id,
+        -_line.quantity,
+        'Transfer ' || _transfer.reference || ' out',
+        NULL,
+        _line.lot_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'in_transit',
+      shipped_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+-- Removing serial-tracked stock names the serials that leave; adding it names
+-- the serials found, which are created if they were never received
+DROP FUNCTION public.create_adjustment(UUID, UUID, NUMERIC, adjustment_reason, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_adjustment(
+  _warehouse_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _reason adjustment_reason,
+  _notes TEXT DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL,
+  _serial_numbers TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _adjustment_id UUID;
+  _reference TEXT;
+  _product public.products;
+  _serials TEXT[];
+  _serial_number TEXT;
+  _serial_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF _reason IN ('damage', 'theft') AND _quantity > 0 THEN
+    RAISE EXCEPTION 'A % adjustment must remove stock', _reason;
+  END IF;
+
+  IF _reason = 'found' AND _quantity < 0 THEN
+    RAISE EXCEPTION 'A found adjustment must add stock';
+  END IF;
+
+  IF NULLIF(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Adjustment notes are required';
+  END IF;
+
+  SELECT * INTO _product FROM public.products WHERE id = _product_id;
+
+  IF _product.is_lot_tracked AND _lot_id IS NULL THEN
+    RAISE EXCEPTION '% is lot-tracked; choose the lot being adjusted', _product.name;
+  END IF;
+
+  _serials := CASE
+    WHEN _product.is_serial_tracked THEN public.clean_serial_numbers(COALESCE(_serial_numbers, '{}'))
+    ELSE '{}'
+  END;
+
+  IF _product.is_serial_tracked AND COALESCE(array_length(_serials, 1), 0) <> abs(_quantity) THEN
+    RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units adjusted',
+      _product.name, COALESCE(array_length(_serials, 1), 0), abs(_quantity);
+  END IF;
+
+  INSERT INTO public.adjustments (warehouse_id, product_id, lot_id, serial_numbers, quantity, reason, notes)
+  VALUES (_warehouse_id, _product_id, _lot_id, _serials, _quantity, _reason, _notes)
+  RETURNING id, reference INTO _adjustment_id, _reference;
+
+  IF _product.is_serial_tracked THEN
+    FOREACH _serial_number IN ARRAY _serials LOOP
+      IF _quantity > 0 THEN
+        INSERT INTO public.serials (product_id, serial_number)
+        VALUES (_product_id, _serial_number)
+        ON CONFLICT (product_id, serial_number) DO NOTHING;
+      END IF;
+
+      SELECT id INTO _serial_id
+      FROM public.serials
+      WHERE product_id = _product_id
+        AND serial_number = _serial_number;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _product.name;
+      END IF;
+
+      PERFORM public.post_stock_movement(
+        _product_id,
+        _warehouse_id,
+        'adjustment',
+        _adjustment_id,
+        sign(_quantity),
+        'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes,
+        NULL,
+        _lot_id,
+        _serial_id
+      );
+    END LOOP;
+  ELSE
+    PERFORM public.post_stock_movement(
+      _product_id,
+      _warehouse_id,
+      'adjustment',
+      _adjustment_id,
+      _quantity,
+      'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes,
+      NULL,
+      _lot_id
+    );
+  END IF;
+
+  RETURN _adjustment_id;
+END;
+$$;
+
+-- Serial tracking follows the same rule as lot tracking: it only changes while
+-- none of the product is in stock
+CREATE OR REPLACE FUNCTION public.check_product_tracking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tracking TEXT;
+BEGIN
+  IF NEW.is_lot_tracked IS DISTINCT FROM OLD.is_lot_tracked THEN
+    _tracking := 'Lot';
+  ELSIF NEW.is_serial_tracked IS DISTINCT FROM OLD.is_serial_tracked THEN
+    _tracking := 'Serial';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.stock_movements
+    WHERE product_id = NEW.id
+    GROUP BY warehouse_id
+    HAVING SUM(quantity) <> 0
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.transfer_lines tl
+    JOIN public.transfers t ON t.id = tl.transfer_id
+    WHERE tl.product_id = NEW.id
+      AND t.status = 'in_transit'
+  ) THEN
+    RAISE EXCEPTION '% tracking for % can only change while none of it is in stock', _tracking, NEW.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER products_check_tracking ON public.products;
+
+CREATE TRIGGER products_check_tracking
+  BEFORE UPDATE OF is_lot_tracked, is_serial_tracked ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_product_tracking_change();
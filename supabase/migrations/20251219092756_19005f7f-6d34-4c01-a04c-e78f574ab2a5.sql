@@ -0,0 +1,41 @@
+-- Sales order lines are fixed once the order is confirmed: its deliveries are
+-- planned from them
+CREATE OR REPLACE FUNCTION public.check_sales_order_line_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_ids UUID[];
+  _order public.sales_orders;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _order_ids := ARRAY[NEW.sales_order_id];
+  ELSIF TG_OP = 'UPDATE' THEN
+    _order_ids := ARRAY[OLD.sales_order_id, NEW.sales_order_id];
+  ELSE
+    _order_ids := ARRAY[OLD.sales_order_id];
+  END IF;
+
+  FOR _order IN
+    SELECT * FROM public.sales_orders WHERE id = ANY (_order_ids)
+  LOOP
+    IF _order.status <> 'draft' THEN
+      RAISE EXCEPTION 'Sales order % is %; its lines can no longer change',
+        _order.reference, _order.status;
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_order_lines_check_change
+  BEFORE INSERT OR UPDATE OR DELETE ON public.sales_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_sales_order_line_change();
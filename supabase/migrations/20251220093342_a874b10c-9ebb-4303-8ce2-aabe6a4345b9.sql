@@ -0,0 +1,488 @@
+-- Lines of a done or canceled receipt or delivery are fixed: they record what
+-- was posted
+CREATE OR REPLACE FUNCTION public.check_stock_line_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document_ids UUID[];
+  _document RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'receipt_lines' THEN
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.receipt_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.receipt_id, NEW.receipt_id];
+    ELSE
+      _document_ids := ARRAY[OLD.receipt_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.receipts
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Receipt % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+  ELSE
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.delivery_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.delivery_id, NEW.delivery_id];
+    ELSE
+      _document_ids := ARRAY[OLD.delivery_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.deliveries
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Delivery % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER receipt_lines_check_change
+  BEFORE INSERT OR UPDATE OR DELETE ON public.receipt_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_stock_line_change();
+
+CREATE TRIGGER delivery_lines_check_change
+  BEFORE INSERT OR UPDATE OR DELETE ON public.delivery_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_stock_line_change();
+
+-- Receipts and deliveries are created as drafts and gain lines before they can
+-- move on, so none reaches waiting or ready without lines
+CREATE OR REPLACE FUNCTION public.check_stock_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _label TEXT;
+  _movement_type movement_type;
+  _has_lines BOOLEAN;
+BEGIN
+  IF TG_TABLE_NAME = 'receipts' THEN
+    _label := 'Receipt';
+    _movement_type := 'receipt';
+  ELSE
+    _label := 'Delivery';
+    _movement_type := 'delivery';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'A new % starts out as a draft, not %', lower(_label), NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- A done document is canceled only once every movement it posted is reversed
+  IF OLD.status = 'done' AND NEW.status = 'canceled' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.stock_movements m
+      WHERE m.reference_id = NEW.id
+        AND m.movement_type = _movement_type
+        AND m.reverses_movement_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements rv WHERE rv.reverses_movement_id = m.id
+        )
+    ) THEN
+      RAISE EXCEPTION '% % must have its stock reversed to be canceled', _label, NEW.reference;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION '% % is already %', _label, OLD.reference, OLD.status;
+  END IF;
+
+  IF NEW.status IN ('waiting', 'ready', 'done') THEN
+    IF TG_TABLE_NAME = 'receipts' THEN
+      _has_lines := EXISTS (SELECT 1 FROM public.receipt_lines WHERE receipt_id = NEW.id);
+    ELSE
+      _has_lines := EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = NEW.id);
+    END IF;
+
+    IF NOT _has_lines THEN
+      RAISE EXCEPTION '% % has no lines', _label, NEW.reference;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE reference_id = NEW.id
+      AND movement_type = _movement_type
+  ) THEN
+    RAISE EXCEPTION '% % must be validated to be done', _label, NEW.reference;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The delivery is reserved once its lines are in, so the ready transition
+-- checks every one of them
+CREATE OR REPLACE FUNCTION public.create_sales_order_delivery(_sales_order_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.sales_orders;
+  _delivery_id UUID;
+  _need RECORD;
+  _on_hand NUMERIC;
+  _reserved NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.sales_orders
+  WHERE id = _sales_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+
+  IF NOT (
+    _order.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to ship this sales order';
+  END IF;
+
+  IF _order.status NOT IN ('confirmed', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Sales order % is %', _order.reference, _order.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.sales_order_line_progress
+    WHERE sales_order_id = _sales_order_id
+      AND ordered_quantity > delivered_quantity + planned_quantity
+  ) THEN
+    RAISE EXCEPTION 'Everything on sales order % is already shipped or on a delivery', _order.reference;
+  END IF;
+
+  -- Products are locked in the same order as stock postings take their locks
+  FOR _need IN
+    SELECT pr.product_id, p.name AS product_name,
+      SUM(pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity) AS quantity
+    FROM public.sales_order_line_progress pr
+    JOIN public.products p ON p.id = pr.product_id
+    WHERE pr.sales_order_id = _sales_order_id
+      AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+    GROUP BY pr.product_id, p.name
+    ORDER BY pr.product_id
+  LOOP
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_need.product_id::text || ':' || _order.warehouse_id::text, 0)
+    );
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _on_hand
+    FROM public.stock_movements
+    WHERE product_id = _need.product_id
+      AND warehouse_id = _order.warehouse_id;
+
+    SELECT COALESCE(SUM(dl.quantity), 0) INTO _reserved
+    FROM public.delivery_lines dl
+    JOIN public.deliveries d ON d.id = dl.delivery_id
+    WHERE d.status = 'ready'
+      AND d.warehouse_id = _order.warehouse_id
+      AND dl.product_id = _need.product_id;
+
+    IF _on_hand - _reserved < _need.quantity THEN
+      RAISE EXCEPTION 'Cannot reserve % of %: only % available (% on hand, % reserved)',
+        _need.quantity, _need.product_name, GREATEST(_on_hand - _reserved, 0), _on_hand, _reserved;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.deliveries (
+    customer_id, shipping_address_id, warehouse_id, sales_order_id,
+    scheduled_date, status, created_by
+  )
+  VALUES (
+    _order.customer_id,
+    _order.shipping_address_id,
+    _order.warehouse_id,
+    _order.id,
+    _order.requested_ship_date,
+    'draft',
+    auth.uid()
+  )
+  RETURNING id INTO _delivery_id;
+
+  INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+  SELECT _delivery_id, pr.product_id,
+    pr.ordered_quantity - pr.delivered_quantity - pr.planned_quantity,
+    pr.sales_order_line_id
+  FROM public.sales_order_line_progress pr
+  JOIN public.sales_order_lines sol ON sol.id = pr.sales_order_line_id
+  WHERE pr.sales_order_id = _sales_order_id
+    AND pr.ordered_quantity > pr.delivered_quantity + pr.planned_quantity
+  ORDER BY sol.created_at, sol.id;
+
+  UPDATE public.deliveries
+  SET status = 'ready'
+  WHERE id = _delivery_id;
+
+  RETURN _delivery_id;
+END;
+$$;
+
+-- Backorders start as drafts too and wait for stock once their lines are copied
+CREATE OR REPLACE FUNCTION public.validate_delivery(
+  _delivery_id UUID,
+  _ship_available BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery public.deliveries;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+  _shipped NUMERIC(10,2);
+  _shipped_serials TEXT[];
+  _available NUMERIC(10,2);
+  _promisable NUMERIC;
+  _backorder_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _delivery
+  FROM public.deliveries
+  WHERE id = _delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF NOT (
+    _delivery.created_by = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to validate this delivery';
+  END IF;
+
+  IF _delivery.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Delivery % is already %', _delivery.reference, _delivery.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_lines WHERE delivery_id = _delivery_id) THEN
+    RAISE EXCEPTION 'Delivery % has no lines', _delivery.reference;
+  END IF;
+
+  -- Lines are posted in product order so concurrent postings lock in the same order.
+  -- Unless shipping what is available, any shortfall raises and rolls back every
+  -- posting made so far.
+  FOR _line IN
+    SELECT dl.id, dl.product_id, dl.quantity, dl.location_id, dl.lot_id,
+      public.clean_serial_numbers(dl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.delivery_lines dl
+    JOIN public.products p ON p.id = dl.product_id
+    WHERE dl.delivery_id = _delivery_id
+    ORDER BY dl.product_id, dl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to pick on its delivery line', _line.product_name;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(_line.product_id::text || ':' || _delivery.warehouse_id::text, 0)
+    );
+
+    -- Earlier lines of this delivery have already left on-hand, so this is
+    -- what remains for this line once other deliveries' reservations are kept
+    _promisable := public.available_to_promise(_line.product_id, _delivery.warehouse_id, _delivery_id);
+
+    IF NOT _ship_available AND _promisable < _line.quantity THEN
+      RAISE EXCEPTION 'Cannot ship % of %: only % available to promise',
+        _line.quantity, _line.product_name, GREATEST(_promisable, 0);
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF _ship_available THEN
+        IF COALESCE(array_length(_line.serial_numbers, 1), 0) > _line.quantity THEN
+          RAISE EXCEPTION '% is serial-tracked; % serials named for % units ordered',
+            _line.product_name, array_length(_line.serial_numbers, 1), _line.quantity;
+        END IF;
+      ELSIF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units delivered',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      _shipped_serials := '{}';
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        -- When shipping what is available, serials that are not here, or that
+        -- would eat into other reservations, stay on the backorder
+        IF _ship_available AND (
+          COALESCE(array_length(_shipped_serials, 1), 0) + 1 > _promisable OR (
+            SELECT COALESCE(SUM(quantity), 0)
+            FROM public.stock_movements
+            WHERE serial_id = _serial_id
+              AND warehouse_id = _delivery.warehouse_id
+              AND (_line.location_id IS NULL OR location_id = _line.location_id)
+              AND (_line.lot_id IS NULL OR lot_id = _line.lot_id)
+          ) < 1
+        ) THEN
+          CONTINUE;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -1,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id,
+          _serial_id
+        );
+
+        _shipped_serials := _shipped_serials || _serial_number;
+      END LOOP;
+
+      _shipped := COALESCE(array_length(_shipped_serials, 1), 0);
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped,
+          serial_numbers = _shipped_serials
+      WHERE id = _line.id;
+    ELSE
+      _shipped := _line.quantity;
+
+      IF _ship_available THEN
+        SELECT GREATEST(COALESCE(SUM(quantity), 0), 0) INTO _available
+        FROM public.stock_movements
+        WHERE product_id = _line.product_id
+          AND warehouse_id = _delivery.warehouse_id
+          AND (_line.location_id IS NULL OR location_id = _line.location_id)
+          AND (_line.lot_id IS NULL OR lot_id = _line.lot_id);
+
+        -- A bin or lot pick is also capped by what the warehouse can promise
+        _available := LEAST(_available, GREATEST(_promisable, 0));
+
+        _shipped := LEAST(_line.quantity, _available);
+      END IF;
+
+      IF _shipped > 0 THEN
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _delivery.warehouse_id,
+          'delivery',
+          _delivery_id,
+          -_shipped,
+          'Delivery ' || _delivery.reference,
+          _line.location_id,
+          _line.lot_id
+        );
+      END IF;
+
+      UPDATE public.delivery_lines
+      SET delivered_quantity = _shipped
+      WHERE id = _line.id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity > 0
+  ) THEN
+    RAISE EXCEPTION 'Nothing on delivery % is in stock yet', _delivery.reference;
+  END IF;
+
+  UPDATE public.deliveries
+  SET status = 'done',
+      delivered_date = now()
+  WHERE id = _delivery_id;
+
+  -- Whatever did not ship waits for stock on a backorder; lots, bins and serials
+  -- are picked again once stock arrives
+  IF EXISTS (
+    SELECT 1 FROM public.delivery_lines
+    WHERE delivery_id = _delivery_id
+      AND delivered_quantity < quantity
+  ) THEN
+    INSERT INTO public.deliveries (
+      customer_id, shipping_address_id, warehouse_id, sales_order_id,
+      backorder_of_id, scheduled_date, status, created_by
+    )
+    VALUES (
+      _delivery.customer_id,
+      _delivery.shipping_address_id,
+      _delivery.warehouse_id,
+      _delivery.sales_order_id,
+      _delivery_id,
+      _delivery.scheduled_date,
+      'draft',
+      auth.uid()
+    )
+    RETURNING id INTO _backorder_id;
+
+    INSERT INTO public.delivery_lines (delivery_id, product_id, quantity, sales_order_line_id)
+    SELECT _backorder_id, dl.product_id, dl.quantity - dl.delivered_quantity, dl.sales_order_line_id
+    FROM public.delivery_lines dl
+    WHERE dl.delivery_id = _delivery_id
+      AND dl.delivered_quantity < dl.quantity
+    ORDER BY dl.created_at, dl.id;
+
+    UPDATE public.deliveries
+    SET status = 'waiting'
+    WHERE id = _backorder_id;
+  END IF;
+
+  RETURN _backorder_id;
+END;
+$$;
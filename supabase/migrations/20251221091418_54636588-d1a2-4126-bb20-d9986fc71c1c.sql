@@ -0,0 +1,70 @@
+-- Status workflow for transfers. A transfer starts as a draft and only moves on
+-- through posting: in transit once dispatch has taken its stock out of the
+-- source, done once validation has put it into the destination. It never goes
+-- back to draft, only a draft can be canceled, and done and canceled are final.
+-- The warehouses are fixed once the transfer leaves draft.
+CREATE OR REPLACE FUNCTION public.check_transfer_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'A new transfer starts out as a draft, not %', NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'draft' AND (
+    NEW.source_warehouse_id IS DISTINCT FROM OLD.source_warehouse_id OR
+    NEW.destination_warehouse_id IS DISTINCT FROM OLD.destination_warehouse_id
+  ) THEN
+    RAISE EXCEPTION 'Transfer % is %; its warehouses can no longer change',
+      OLD.reference, OLD.status;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('done', 'canceled') THEN
+    RAISE EXCEPTION 'Transfer % is already %', OLD.reference, OLD.status;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Transfer % has been dispatched and cannot go back to draft', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'canceled' AND OLD.status = 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer % is in transit; validate it to receive its stock', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'in_transit' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE reference_id = NEW.id
+      AND movement_type = 'transfer'
+      AND quantity < 0
+  ) THEN
+    RAISE EXCEPTION 'Transfer % must be dispatched to be in transit', NEW.reference;
+  END IF;
+
+  IF NEW.status = 'done' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE reference_id = NEW.id
+      AND movement_type = 'transfer'
+      AND quantity > 0
+  ) THEN
+    RAISE EXCEPTION 'Transfer % must be validated to be done', NEW.reference;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER transfers_check_status
+  BEFORE INSERT OR UPDATE ON public.transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transfer_status_transition();
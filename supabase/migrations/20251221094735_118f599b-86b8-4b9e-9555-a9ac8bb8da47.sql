@@ -0,0 +1,336 @@
+-- Transfers and adjustments move stock in and out of bins: a transfer line
+-- names the bin it leaves from and the bin it goes to, an adjustment the bin it
+-- corrects. Both are required wherever the warehouse has locations.
+ALTER TABLE public.transfer_lines
+  ADD COLUMN source_location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  ADD COLUMN destination_location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.adjustments
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION public.warehouse_has_locations(_warehouse_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE warehouse_id = _warehouse_id
+      AND is_active
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.warehouse_has_locations(UUID)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.dispatch_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+  _product RECORD;
+  _available NUMERIC;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Transfer % is already in transit', _transfer.reference;
+  END IF;
+
+  FOR _line IN
+    SELECT tl.product_id, tl.quantity, tl.lot_id, tl.source_location_id, tl.destination_location_id,
+      public.clean_serial_numbers(tl.serial_numbers) AS serial_numbers,
+      p.name AS product_name, p.is_lot_tracked, p.is_serial_tracked
+    FROM public.transfer_lines tl
+    JOIN public.products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = _transfer_id
+    ORDER BY tl.product_id, tl.id
+  LOOP
+    IF _line.is_lot_tracked AND _line.lot_id IS NULL THEN
+      RAISE EXCEPTION '% is lot-tracked; choose the lot to move on its transfer line', _line.product_name;
+    END IF;
+
+    IF _line.source_location_id IS NULL AND public.warehouse_has_locations(_transfer.source_warehouse_id) THEN
+      RAISE EXCEPTION 'Choose the location % leaves from on its transfer line', _line.product_name;
+    END IF;
+
+    IF _line.destination_location_id IS NULL AND public.warehouse_has_locations(_transfer.destination_warehouse_id) THEN
+      RAISE EXCEPTION 'Choose the location % goes to on its transfer line', _line.product_name;
+    END IF;
+
+    -- Catch a destination bin in the wrong warehouse before any stock leaves
+    IF _line.destination_location_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.locations
+      WHERE id = _line.destination_location_id
+        AND warehouse_id = _transfer.destination_warehouse_id
+    ) THEN
+      RAISE EXCEPTION 'The location % goes to is not in the destination warehouse', _line.product_name;
+    END IF;
+
+    IF _line.is_serial_tracked THEN
+      IF COALESCE(array_length(_line.serial_numbers, 1), 0) <> _line.quantity THEN
+        RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units transferred',
+          _line.product_name, COALESCE(array_length(_line.serial_numbers, 1), 0), _line.quantity;
+      END IF;
+
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _line.product_name;
+        END IF;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _transfer.source_warehouse_id,
+          'transfer',
+          _transfer_id,
+          -1,
+          'Transfer ' || _transfer.reference || ' out',
+          _line.source_location_id,
+          _line.lot_id,
+          _serial_id
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.post_stock_movement(
+        _line.product_id,
+        _transfer.source_warehouse_id,
+        'transfer',
+        _transfer_id,
+        -_line.quantity,
+        'Transfer ' || _transfer.reference || ' out',
+        _line.source_location_id,
+        _line.lot_id
+      );
+    END IF;
+  END LOOP;
+
+  FOR _product IN
+    SELECT DISTINCT tl.product_id, p.name AS product_name
+    FROM public.transfer_lines tl
+    JOIN public.products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = _transfer_id
+  LOOP
+    _available := public.available_to_promise(_product.product_id, _transfer.source_warehouse_id);
+
+    IF _available < 0 THEN
+      RAISE EXCEPTION 'Cannot dispatch transfer %: it takes % of % that ready deliveries have reserved',
+        _transfer.reference, -_available, _product.product_name;
+    END IF;
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'in_transit',
+      shipped_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+-- Lines are fixed from dispatch on, so receiving them line by line puts into
+-- the destination exactly what left the source, lot and serial included, and
+-- into the bin each line names
+CREATE OR REPLACE FUNCTION public.validate_transfer(_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.transfers;
+  _line RECORD;
+  _serial_number TEXT;
+  _serial_id UUID;
+BEGIN
+  _transfer := public.lock_transfer_for_posting(_transfer_id);
+
+  IF _transfer.status = 'draft' THEN
+    PERFORM public.dispatch_transfer(_transfer_id);
+  END IF;
+
+  FOR _line IN
+    SELECT tl.product_id, tl.quantity, tl.lot_id, tl.destination_location_id,
+      public.clean_serial_numbers(tl.serial_numbers) AS serial_numbers,
+      p.is_serial_tracked
+    FROM public.transfer_lines tl
+    JOIN public.products p ON p.id = tl.product_id
+    WHERE tl.transfer_id = _transfer_id
+    ORDER BY tl.product_id, tl.id
+  LOOP
+    IF _line.is_serial_tracked THEN
+      FOREACH _serial_number IN ARRAY _line.serial_numbers LOOP
+        SELECT id INTO _serial_id
+        FROM public.serials
+        WHERE product_id = _line.product_id
+          AND serial_number = _serial_number;
+
+        PERFORM public.post_stock_movement(
+          _line.product_id,
+          _transfer.destination_warehouse_id,
+          'transfer',
+          _transfer_id,
+          1,
+          'Transfer ' || _transfer.reference || ' in',
+          _line.destination_location_id,
+          _line.lot_id,
+          _serial_id
+        );
+      END LOOP;
+    ELSE
+      PERFORM public.post_stock_movement(
+        _line.product_id,
+        _transfer.destination_warehouse_id,
+        'transfer',
+        _transfer_id,
+        _line.quantity,
+        'Transfer ' || _transfer.reference || ' in',
+        _line.destination_location_id,
+        _line.lot_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.transfers
+  SET status = 'done',
+      received_date = now()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+DROP FUNCTION public.create_adjustment(UUID, UUID, NUMERIC, adjustment_reason, TEXT, UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.create_adjustment(
+  _warehouse_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _reason adjustment_reason,
+  _notes TEXT DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL,
+  _serial_numbers TEXT[] DEFAULT '{}',
+  _location_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _adjustment_id UUID;
+  _reference TEXT;
+  _product public.products;
+  _serials TEXT[];
+  _serial_number TEXT;
+  _serial_id UUID;
+  _available NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF _reason IN ('damage', 'theft') AND _quantity > 0 THEN
+    RAISE EXCEPTION 'A % adjustment must remove stock', _reason;
+  END IF;
+
+  IF _reason = 'found' AND _quantity < 0 THEN
+    RAISE EXCEPTION 'A found adjustment must add stock';
+  END IF;
+
+  IF NULLIF(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Adjustment notes are required';
+  END IF;
+
+  SELECT * INTO _product FROM public.products WHERE id = _product_id;
+
+  IF _product.is_lot_tracked AND _lot_id IS NULL THEN
+    RAISE EXCEPTION '% is lot-tracked; choose the lot being adjusted', _product.name;
+  END IF;
+
+  IF _location_id IS NULL AND public.warehouse_has_locations(_warehouse_id) THEN
+    RAISE EXCEPTION 'Choose the location being adjusted';
+  END IF;
+
+  _serials := CASE
+    WHEN _product.is_serial_tracked THEN public.clean_serial_numbers(COALESCE(_serial_numbers, '{}'))
+    ELSE '{}'
+  END;
+
+  IF _product.is_serial_tracked AND COALESCE(array_length(_serials, 1), 0) <> abs(_quantity) THEN
+    RAISE EXCEPTION '% is serial-tracked; % distinct serials named for % units adjusted',
+      _product.name, COALESCE(array_length(_serials, 1), 0), abs(_quantity);
+  END IF;
+
+  INSERT INTO public.adjustments (
+    warehouse_id, location_id, product_id, lot_id, serial_numbers, quantity, reason, notes
+  )
+  VALUES (_warehouse_id, _location_id, _product_id, _lot_id, _serials, _quantity, _reason, _notes)
+  RETURNING id, reference INTO _adjustment_id, _reference;
+
+  IF _product.is_serial_tracked THEN
+    FOREACH _serial_number IN ARRAY _serials LOOP
+      IF _quantity > 0 THEN
+        INSERT INTO public.serials (product_id, serial_number)
+        VALUES (_product_id, _serial_number)
+        ON CONFLICT (product_id, serial_number) DO NOTHING;
+      END IF;
+
+      SELECT id INTO _serial_id
+      FROM public.serials
+      WHERE product_id = _product_id
+        AND serial_number = _serial_number;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial % of % has never been received', _serial_number, _product.name;
+      END IF;
+
+      PERFORM public.post_stock_movement(
+        _product_id,
+        _warehouse_id,
+        'adjustment',
+        _adjustment_id,
+        sign(_quantity),
+        'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes,
+        _location_id,
+        _lot_id,
+        _serial_id
+      );
+    END LOOP;
+  ELSE
+    PERFORM public.post_stock_movement(
+      _product_id,
+      _warehouse_id,
+      'adjustment',
+      _adjustment_id,
+      _quantity,
+      'Adjustment ' || _reference || ' (' || _reason || '): ' || _notes,
+      _location_id,
+      _lot_id
+    );
+  END IF;
+
+  IF _quantity < 0 THEN
+    _available := public.available_to_promise(_product_id, _warehouse_id);
+
+    IF _available < 0 THEN
+      RAISE EXCEPTION 'Cannot post adjustment %: it removes % of % that ready deliveries have reserved',
+        _reference, -_available, _product.name;
+    END IF;
+  END IF;
+
+  RETURN _adjustment_id;
+END;
+$$;
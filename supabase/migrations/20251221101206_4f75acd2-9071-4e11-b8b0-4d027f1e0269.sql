@@ -0,0 +1,155 @@
+-- Lines of a done or canceled receipt or delivery are fixed, and a receipt line
+-- generated from a purchase order stays tied to its order line
+CREATE OR REPLACE FUNCTION public.check_stock_line_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document_ids UUID[];
+  _document RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'receipt_lines' THEN
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.receipt_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.receipt_id, NEW.receipt_id];
+    ELSE
+      _document_ids := ARRAY[OLD.receipt_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.receipts
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Receipt % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+
+    -- A line generated from a purchase order counts against its order line, so
+    -- it keeps that line and its product
+    IF TG_OP = 'UPDATE' AND OLD.purchase_order_line_id IS NOT NULL AND (
+      NEW.purchase_order_line_id IS DISTINCT FROM OLD.purchase_order_line_id OR
+      NEW.product_id <> OLD.product_id
+    ) THEN
+      RAISE EXCEPTION 'A receipt line from a purchase order keeps its product and order line';
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND NEW.purchase_order_line_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.purchase_order_lines pol
+      JOIN public.receipts r ON r.purchase_order_id = pol.purchase_order_id
+      WHERE pol.id = NEW.purchase_order_line_id
+        AND pol.product_id = NEW.product_id
+        AND r.id = NEW.receipt_id
+    ) THEN
+      RAISE EXCEPTION 'A receipt line can only follow a line of its own purchase order for the same product';
+    END IF;
+  ELSE
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.delivery_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.delivery_id, NEW.delivery_id];
+    ELSE
+      _document_ids := ARRAY[OLD.delivery_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.deliveries
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Delivery % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Status workflow for purchase orders. An order starts as a draft and is
+-- confirmed by generating its receipt; from then on its status follows what its
+-- receipts have received. Only a draft can be canceled, and canceled is final.
+CREATE OR REPLACE FUNCTION public.check_purchase_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expected purchase_order_status;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'A new purchase order starts out as a draft, not %', NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'canceled' THEN
+    RAISE EXCEPTION 'Purchase order % is already canceled', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Purchase order % has been confirmed and cannot go back to draft', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'canceled' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % is %; only a draft can be canceled', OLD.reference, OLD.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NOT EXISTS (
+    SELECT 1 FROM public.receipts WHERE purchase_order_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % must be confirmed to generate its receipt', NEW.reference;
+  END IF;
+
+  _expected := CASE
+    WHEN NOT EXISTS (
+      SELECT 1
+      FROM public.purchase_order_line_progress
+      WHERE purchase_order_id = NEW.id
+        AND received_quantity > 0
+    ) THEN 'confirmed'::purchase_order_status
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.purchase_order_line_progress
+      WHERE purchase_order_id = NEW.id
+        AND received_quantity < ordered_quantity
+    ) THEN 'partially_received'::purchase_order_status
+    ELSE 'received'::purchase_order_status
+  END;
+
+  IF NEW.status <> _expected THEN
+    RAISE EXCEPTION 'Purchase order % is % by what its receipts received, not %',
+      NEW.reference, _expected, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER purchase_orders_check_status
+  BEFORE INSERT OR UPDATE OF status ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_purchase_order_status_transition();
@@ -0,0 +1,174 @@
+-- Delivery lines generated from a sales order stay tied to their order line,
+-- as receipt lines do to theirs
+CREATE OR REPLACE FUNCTION public.check_stock_line_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document_ids UUID[];
+  _document RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'receipt_lines' THEN
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.receipt_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.receipt_id, NEW.receipt_id];
+    ELSE
+      _document_ids := ARRAY[OLD.receipt_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.receipts
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Receipt % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+
+    -- A line generated from a purchase order counts against its order line, so
+    -- it keeps that line and its product
+    IF TG_OP = 'UPDATE' AND OLD.purchase_order_line_id IS NOT NULL AND (
+      NEW.purchase_order_line_id IS DISTINCT FROM OLD.purchase_order_line_id OR
+      NEW.product_id <> OLD.product_id
+    ) THEN
+      RAISE EXCEPTION 'A receipt line from a purchase order keeps its product and order line';
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND NEW.purchase_order_line_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.purchase_order_lines pol
+      JOIN public.receipts r ON r.purchase_order_id = pol.purchase_order_id
+      WHERE pol.id = NEW.purchase_order_line_id
+        AND pol.product_id = NEW.product_id
+        AND r.id = NEW.receipt_id
+    ) THEN
+      RAISE EXCEPTION 'A receipt line can only follow a line of its own purchase order for the same product';
+    END IF;
+  ELSE
+    IF TG_OP = 'INSERT' THEN
+      _document_ids := ARRAY[NEW.delivery_id];
+    ELSIF TG_OP = 'UPDATE' THEN
+      _document_ids := ARRAY[OLD.delivery_id, NEW.delivery_id];
+    ELSE
+      _document_ids := ARRAY[OLD.delivery_id];
+    END IF;
+
+    FOR _document IN
+      SELECT reference, status
+      FROM public.deliveries
+      WHERE id = ANY (_document_ids)
+    LOOP
+      IF _document.status IN ('done', 'canceled') THEN
+        RAISE EXCEPTION 'Delivery % is %; its lines can no longer change',
+          _document.reference, _document.status;
+      END IF;
+    END LOOP;
+
+    -- Likewise a line generated from a sales order keeps its order line and product
+    IF TG_OP = 'UPDATE' AND OLD.sales_order_line_id IS NOT NULL AND (
+      NEW.sales_order_line_id IS DISTINCT FROM OLD.sales_order_line_id OR
+      NEW.product_id <> OLD.product_id
+    ) THEN
+      RAISE EXCEPTION 'A delivery line from a sales order keeps its product and order line';
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND NEW.sales_order_line_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.sales_order_lines sol
+      JOIN public.deliveries d ON d.sales_order_id = sol.sales_order_id
+      WHERE sol.id = NEW.sales_order_line_id
+        AND sol.product_id = NEW.product_id
+        AND d.id = NEW.delivery_id
+    ) THEN
+      RAISE EXCEPTION 'A delivery line can only follow a line of its own sales order for the same product';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Status workflow for sales orders. An order starts as a draft and is confirmed
+-- once it has lines; from then on its status follows what its deliveries have
+-- shipped. Only a draft can be canceled, and canceled is final.
+CREATE OR REPLACE FUNCTION public.check_sales_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expected sales_order_status;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'A new sales order starts out as a draft, not %', NEW.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'canceled' THEN
+    RAISE EXCEPTION 'Sales order % is already canceled', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Sales order % has been confirmed and cannot go back to draft', OLD.reference;
+  END IF;
+
+  IF NEW.status = 'canceled' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Sales order % is %; only a draft can be canceled', OLD.reference, OLD.status;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NOT EXISTS (
+    SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Sales order % has no lines', NEW.reference;
+  END IF;
+
+  _expected := CASE
+    WHEN NOT EXISTS (
+      SELECT 1
+      FROM public.sales_order_line_progress
+      WHERE sales_order_id = NEW.id
+        AND delivered_quantity > 0
+    ) THEN 'confirmed'::sales_order_status
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.sales_order_line_progress
+      WHERE sales_order_id = NEW.id
+        AND delivered_quantity < ordered_quantity
+    ) THEN 'partially_delivered'::sales_order_status
+    ELSE 'delivered'::sales_order_status
+  END;
+
+  IF NEW.status <> _expected THEN
+    RAISE EXCEPTION 'Sales order % is % by what its deliveries shipped, not %',
+      NEW.reference, _expected, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_orders_check_status
+  BEFORE INSERT OR UPDATE OF status ON public.sales_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_sales_order_status_transition();
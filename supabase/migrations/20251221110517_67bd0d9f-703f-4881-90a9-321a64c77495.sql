@@ -0,0 +1,16 @@
+-- Party names are normalized across every script: the earlier definition kept
+-- only ASCII letters and digits, so names in other scripts all reduced to an
+-- empty key and collided. Rebuild the index on the corrected key.
+CREATE OR REPLACE FUNCTION public.normalize_party_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(btrim(regexp_replace(lower(_name), '[^[:alnum:]]+', ' ', 'g')), ''),
+    lower(btrim(_name))
+  );
+$$;
+
+REINDEX INDEX public.suppliers_normalized_name_key;
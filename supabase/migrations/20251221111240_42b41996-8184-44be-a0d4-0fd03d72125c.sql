@@ -0,0 +1,2 @@
+-- Customer names share the corrected party name key
+REINDEX INDEX public.customers_normalized_name_key;
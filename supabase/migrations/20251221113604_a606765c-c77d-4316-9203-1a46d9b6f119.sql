@@ -0,0 +1,110 @@
+-- Document counters were kept per type and warehouse, but a reference spells
+-- out the warehouse code, and codes can be edited. A warehouse that took over a
+-- code another warehouse used before started again at 00001 and hit a reference
+-- that already existed. Count per rendered prefix instead (the text a reference
+-- starts with), so a prefix that comes back picks up where it left off.
+CREATE TABLE public.document_sequences_new (
+  prefix TEXT PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- Start from the old counters under today's codes and from the references
+-- already written, whichever is higher. A reference counts towards the current
+-- prefix of its type, or failing that towards everything before its last digits.
+WITH refs AS (
+  SELECT 'receipt'::document_type AS document_type, reference FROM public.receipts
+  UNION ALL SELECT 'delivery', reference FROM public.deliveries
+  UNION ALL SELECT 'transfer', reference FROM public.transfers
+  UNION ALL SELECT 'adjustment', reference FROM public.adjustments
+  UNION ALL SELECT 'purchase_order', reference FROM public.purchase_orders
+  UNION ALL SELECT 'sales_order', reference FROM public.sales_orders
+),
+prefixes AS (
+  SELECT n.document_type, replace(n.prefix, '{warehouse}', w.code) AS prefix
+  FROM public.document_numbering n
+  CROSS JOIN public.warehouses w
+)
+INSERT INTO public.document_sequences_new (prefix, last_number)
+SELECT prefix, MAX(last_number)
+FROM (
+  SELECT replace(n.prefix, '{warehouse}', w.code), s.last_number
+  FROM public.document_sequences s
+  JOIN public.document_numbering n ON n.document_type = s.document_type
+  JOIN public.warehouses w ON w.id = s.warehouse_id
+  UNION ALL
+  SELECT prefix, ltrim(digits, '0')::integer
+  FROM (
+    SELECT
+      COALESCE(p.prefix, substring(r.reference FROM '^(.*\D)\d+$')) AS prefix,
+      COALESCE(substring(r.reference FROM length(p.prefix) + 1), substring(r.reference FROM '\D(\d+)$')) AS digits
+    FROM refs r
+    LEFT JOIN prefixes p
+      ON p.document_type = r.document_type
+      AND left(r.reference, length(p.prefix)) = p.prefix
+      AND substring(r.reference FROM length(p.prefix) + 1) ~ '^\d+$'
+  ) parsed
+  WHERE digits ~ '^0*[1-9]\d{0,8}$'
+) counters (prefix, last_number)
+GROUP BY prefix;
+
+DROP TABLE public.document_sequences;
+ALTER TABLE public.document_sequences_new RENAME TO document_sequences;
+ALTER TABLE public.document_sequences
+  RENAME CONSTRAINT document_sequences_new_pkey TO document_sequences_pkey;
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Counters are only advanced by next_document_reference
+CREATE POLICY "Authenticated users can view document sequences"
+  ON public.document_sequences FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Take the next number for a document type in a warehouse. The counter row stays
+-- locked until the transaction ends, so numbers are handed out in order and a
+-- rolled-back document gives its number back.
+CREATE OR REPLACE FUNCTION public.next_document_reference(
+  _document_type document_type,
+  _warehouse_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _numbering public.document_numbering;
+  _warehouse_code TEXT;
+  _prefix TEXT;
+  _number INTEGER;
+BEGIN
+  SELECT * INTO _numbering
+  FROM public.document_numbering
+  WHERE document_type = _document_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering is set up for % documents', _document_type;
+  END IF;
+
+  SELECT code INTO _warehouse_code
+  FROM public.warehouses
+  WHERE id = _warehouse_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Warehouse not found';
+  END IF;
+
+  _prefix := replace(_numbering.prefix, '{warehouse}', _warehouse_code);
+
+  INSERT INTO public.document_sequences (prefix, last_number)
+  VALUES (_prefix, 1)
+  ON CONFLICT (prefix)
+  DO UPDATE SET last_number = public.document_sequences.last_number + 1
+  RETURNING last_number INTO _number;
+
+  RETURN _prefix || lpad(_number::text, _numbering.padding, '0');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_document_reference(document_type, UUID)
+  FROM PUBLIC, anon, authenticated;